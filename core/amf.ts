@@ -1,4 +1,13 @@
+import { concat } from "@std/bytes/concat";
 import { assertEquals } from "jsr:@std/assert";
+import {
+    AMF3Value,
+    AMF3Vector,
+    AMF3Xml,
+    encodeAMF3Value,
+    parseAMF3Value,
+    TypedObject,
+} from "./amf3.ts";
 
 /**
  * AMF0 Data Types
@@ -33,15 +42,50 @@ export type AMF0Value =
     | null
     | undefined
     | AMF0Value[]
-    | Date;
+    | Date
+    // only AMF3 can carry these, they are sent as AVMPLUS_OBJECT
+    | Uint8Array
+    | TypedObject
+    | AMF3Xml
+    | AMF3Vector
+    | Map<AMF3Value, AMF3Value>
+    | Unsupported;
+
+/**
+ * The UNSUPPORTED marker, sent for values that have no AMF0 equivalent
+ */
+export class Unsupported {
+    private readonly unsupported = true;
+}
+export const UNSUPPORTED = new Unsupported();
+
+/**
+ * An object to be encoded as ECMA array instead of anonymous object,
+ * some platforms require it for onMetaData. Decoded ECMA arrays are
+ * instances too, so they encode back the same way.
+ *
+ *   encodeAMF0Value(new ECMAArray({ width: 1280, height: 720 }))
+ */
+export class ECMAArray {
+    [key: string]: AMF0Value;
+
+    constructor(properties: { [key: string]: AMF0Value } = {}) {
+        Object.assign(this, properties);
+    }
+}
 
 /**
  * Parse an AMF0 value from a buffer at a given position
  * Returns the parsed value and the new position in the buffer
+ *
+ * Objects, typed objects and arrays are added to `references` in the order
+ * they appear, REFERENCE markers point into it. Values of one message share
+ * the table.
  */
 export function parseAMF0Value(
     buffer: Uint8Array,
     position: number,
+    references: AMF0Value[] = [],
 ): { value: AMF0Value; newPosition: number } {
     const type = buffer[position];
     position++;
@@ -77,37 +121,8 @@ export function parseAMF0Value(
 
         case AMF0DataType.OBJECT: {
             const obj: { [key: string]: AMF0Value } = {};
-
-            // Parse property names and values until we reach an OBJECT_END marker
-            while (true) {
-                // Read property name (string)
-                const propertyNameLength = (buffer[position] << 8) |
-                    buffer[position + 1];
-                position += 2;
-
-                // If property name length is 0 and the next byte is OBJECT_END, we're done
-                if (
-                    propertyNameLength === 0 &&
-                    buffer[position] === AMF0DataType.OBJECT_END
-                ) {
-                    position += 1; // Skip the OBJECT_END marker
-                    break;
-                }
-
-                // Extract the property name
-                const propertyNameData = buffer.slice(
-                    position,
-                    position + propertyNameLength,
-                );
-                const propertyName = new TextDecoder().decode(propertyNameData);
-                position += propertyNameLength;
-
-                // Parse the property value
-                const { value, newPosition } = parseAMF0Value(buffer, position);
-                obj[propertyName] = value;
-                position = newPosition;
-            }
-
+            references.push(obj);
+            position = parseAMF0Properties(buffer, position, obj, references);
             return { value: obj, newPosition: position };
         }
 
@@ -122,38 +137,9 @@ export function parseAMF0Value(
             // and just parse until we reach an OBJECT_END marker
             position += 4; // Skip count
 
-            const obj: { [key: string]: AMF0Value } = {};
-
-            // Parse property names and values until we reach an OBJECT_END marker
-            while (true) {
-                // Read property name (string)
-                const propertyNameLength = (buffer[position] << 8) |
-                    buffer[position + 1];
-                position += 2;
-
-                // If property name length is 0 and the next byte is OBJECT_END, we're done
-                if (
-                    propertyNameLength === 0 &&
-                    buffer[position] === AMF0DataType.OBJECT_END
-                ) {
-                    position += 1; // Skip the OBJECT_END marker
-                    break;
-                }
-
-                // Extract the property name
-                const propertyNameData = buffer.slice(
-                    position,
-                    position + propertyNameLength,
-                );
-                const propertyName = new TextDecoder().decode(propertyNameData);
-                position += propertyNameLength;
-
-                // Parse the property value
-                const { value, newPosition } = parseAMF0Value(buffer, position);
-                obj[propertyName] = value;
-                position = newPosition;
-            }
-
+            const obj = new ECMAArray();
+            references.push(obj);
+            position = parseAMF0Properties(buffer, position, obj, references);
             return { value: obj, newPosition: position };
         }
 
@@ -166,10 +152,15 @@ export function parseAMF0Value(
             position += 4;
 
             const array: AMF0Value[] = [];
+            references.push(array);
 
             // Parse array elements
             for (let i = 0; i < arrayLength; i++) {
-                const { value, newPosition } = parseAMF0Value(buffer, position);
+                const { value, newPosition } = parseAMF0Value(
+                    buffer,
+                    position,
+                    references,
+                );
                 array.push(value);
                 position = newPosition;
             }
@@ -209,12 +200,115 @@ export function parseAMF0Value(
             return { value, newPosition: position + stringLength };
         }
 
+        case AMF0DataType.REFERENCE: {
+            // 2-byte index of an object or array seen before
+            const index = (buffer[position] << 8) | buffer[position + 1];
+            if (index >= references.length) {
+                console.warn(`Invalid AMF0 reference: ${index}`);
+                return { value: null, newPosition: position + 2 };
+            }
+            return { value: references[index], newPosition: position + 2 };
+        }
+
+        case AMF0DataType.TYPED_OBJECT: {
+            // Class name as a string without type marker, then the properties
+            const classNameLength = (buffer[position] << 8) |
+                buffer[position + 1];
+            position += 2;
+            const className = new TextDecoder().decode(
+                buffer.slice(position, position + classNameLength),
+            );
+            position += classNameLength;
+
+            const properties: { [key: string]: AMF0Value } = {};
+            const value = new TypedObject(
+                className,
+                properties as { [key: string]: AMF3Value },
+            );
+            references.push(value);
+            position = parseAMF0Properties(
+                buffer,
+                position,
+                properties,
+                references,
+            );
+            return { value, newPosition: position };
+        }
+
+        case AMF0DataType.XML_DOCUMENT: {
+            // Encoded like a long string
+            const stringLength = (buffer[position] << 24) |
+                (buffer[position + 1] << 16) |
+                (buffer[position + 2] << 8) |
+                buffer[position + 3];
+            position += 4;
+
+            const stringData = buffer.slice(position, position + stringLength);
+            const value = new AMF3Xml(
+                new TextDecoder().decode(stringData),
+                true,
+            );
+            return { value, newPosition: position + stringLength };
+        }
+
+        case AMF0DataType.UNSUPPORTED:
+            return { value: UNSUPPORTED, newPosition: position };
+
+        case AMF0DataType.AVMPLUS_OBJECT:
+            // The rest of the value is AMF3
+            return parseAMF3Value(buffer, position);
+
         default:
             console.warn(`Unsupported AMF0 type: ${type}`);
             return { value: null, newPosition: position };
     }
 }
 
+/**
+ * Parse the properties of an object, ECMA array or typed object into
+ * `target` until the OBJECT_END marker
+ * Returns the position after the marker
+ */
+function parseAMF0Properties(
+    buffer: Uint8Array,
+    position: number,
+    target: { [key: string]: AMF0Value },
+    references: AMF0Value[],
+): number {
+    while (position < buffer.length) {
+        // Read property name (string)
+        const propertyNameLength = (buffer[position] << 8) |
+            buffer[position + 1];
+        position += 2;
+
+        // If property name length is 0 and the next byte is OBJECT_END, we're done
+        if (
+            propertyNameLength === 0 &&
+            buffer[position] === AMF0DataType.OBJECT_END
+        ) {
+            return position + 1; // Skip the OBJECT_END marker
+        }
+
+        // Extract the property name
+        const propertyNameData = buffer.slice(
+            position,
+            position + propertyNameLength,
+        );
+        const propertyName = new TextDecoder().decode(propertyNameData);
+        position += propertyNameLength;
+
+        // Parse the property value
+        const { value, newPosition } = parseAMF0Value(
+            buffer,
+            position,
+            references,
+        );
+        target[propertyName] = value;
+        position = newPosition;
+    }
+    return position;
+}
+
 /**
  * Parse an RTMP command message in AMF0 format
  * Returns the command name, transaction ID, command object, and any additional parameters
@@ -226,11 +320,13 @@ export function parseAMF0Command(buffer: Uint8Array): {
     additionalParams: AMF0Value[];
 } {
     let position = 0;
+    const references: AMF0Value[] = [];
 
     // Parse command name (string)
     const { value: commandName, newPosition: pos1 } = parseAMF0Value(
         buffer,
         position,
+        references,
     );
     position = pos1;
 
@@ -238,6 +334,7 @@ export function parseAMF0Command(buffer: Uint8Array): {
     const { value: transactionId, newPosition: pos2 } = parseAMF0Value(
         buffer,
         position,
+        references,
     );
     position = pos2;
 
@@ -245,6 +342,7 @@ export function parseAMF0Command(buffer: Uint8Array): {
     const { value: commandObject, newPosition: pos3 } = parseAMF0Value(
         buffer,
         position,
+        references,
     );
     position = pos3;
 
@@ -252,7 +350,11 @@ export function parseAMF0Command(buffer: Uint8Array): {
     const additionalParams: AMF0Value[] = [];
 
     while (position < buffer.length) {
-        const { value, newPosition } = parseAMF0Value(buffer, position);
+        const { value, newPosition } = parseAMF0Value(
+            buffer,
+            position,
+            references,
+        );
         additionalParams.push(value);
         position = newPosition;
     }
@@ -268,8 +370,14 @@ export function parseAMF0Command(buffer: Uint8Array): {
 /**
  * Encode an AMF0 value to a buffer
  * Returns a Uint8Array containing the encoded value
+ *
+ * Objects and arrays already in `references` are encoded as REFERENCE,
+ * values of one message share the table.
  */
-export function encodeAMF0Value(value: AMF0Value): Uint8Array {
+export function encodeAMF0Value(
+    value: AMF0Value,
+    references: Map<object, number> = new Map(),
+): Uint8Array {
     if (typeof value === "number") {
         // Number: 1 byte type marker + 8 bytes double
         const buffer = new Uint8Array(9);
@@ -304,15 +412,7 @@ export function encodeAMF0Value(value: AMF0Value): Uint8Array {
             return buffer;
         } else {
             // Long string: 1 byte type marker + 4 bytes length + string data
-            const buffer = new Uint8Array(5 + stringBytes.length);
-            buffer[0] = AMF0DataType.LONG_STRING;
-            buffer[1] = (stringBytes.length >> 24) & 0xFF;
-            buffer[2] = (stringBytes.length >> 16) & 0xFF;
-            buffer[3] = (stringBytes.length >> 8) & 0xFF;
-            buffer[4] = stringBytes.length & 0xFF;
-            buffer.set(stringBytes, 5);
-
-            return buffer;
+            return encodeLongString(AMF0DataType.LONG_STRING, stringBytes);
         }
     }
 
@@ -326,39 +426,9 @@ export function encodeAMF0Value(value: AMF0Value): Uint8Array {
         return new Uint8Array([AMF0DataType.UNDEFINED]);
     }
 
-    if (Array.isArray(value)) {
-        // Strict array: 1 byte type marker + 4 bytes length + array elements
-        const buffers: Uint8Array[] = [];
-
-        // Type marker and array length
-        const header = new Uint8Array(5);
-        header[0] = AMF0DataType.STRICT_ARRAY;
-        header[1] = (value.length >> 24) & 0xFF;
-        header[2] = (value.length >> 16) & 0xFF;
-        header[3] = (value.length >> 8) & 0xFF;
-        header[4] = value.length & 0xFF;
-
-        buffers.push(header);
-
-        // Array elements
-        for (const element of value) {
-            buffers.push(encodeAMF0Value(element));
-        }
-
-        // Combine all buffers
-        const totalLength = buffers.reduce(
-            (sum, buffer) => sum + buffer.length,
-            0,
-        );
-        const result = new Uint8Array(totalLength);
-
-        let position = 0;
-        for (const buffer of buffers) {
-            result.set(buffer, position);
-            position += buffer.length;
-        }
-
-        return result;
+    if (value instanceof Unsupported) {
+        // Unsupported: 1 byte type marker
+        return new Uint8Array([AMF0DataType.UNSUPPORTED]);
     }
 
     if (value instanceof Date) {
@@ -377,50 +447,122 @@ export function encodeAMF0Value(value: AMF0Value): Uint8Array {
         return buffer;
     }
 
-    if (typeof value === "object") {
-        // Object or ECMA array
-        const buffers: Uint8Array[] = [];
+    if (value instanceof AMF3Xml && value.legacy) {
+        // XML document: 1 byte type marker + 4 bytes length + string data
+        return encodeLongString(
+            AMF0DataType.XML_DOCUMENT,
+            new TextEncoder().encode(value.xml),
+        );
+    }
 
-        // Type marker
-        buffers.push(new Uint8Array([AMF0DataType.OBJECT]));
+    if (
+        value instanceof Uint8Array || value instanceof AMF3Xml ||
+        value instanceof AMF3Vector || value instanceof Map
+    ) {
+        // AVMPLUS_OBJECT marker followed by the AMF3 value
+        const amf3 = encodeAMF3Value(value);
+        const buffer = new Uint8Array(1 + amf3.length);
+        buffer[0] = AMF0DataType.AVMPLUS_OBJECT;
+        buffer.set(amf3, 1);
+
+        return buffer;
+    }
 
-        // Object properties
-        for (const [key, propValue] of Object.entries(value)) {
-            // Property name (string without type marker)
-            const keyBytes = new TextEncoder().encode(key);
-            const keyBuffer = new Uint8Array(2 + keyBytes.length);
-            keyBuffer[0] = (keyBytes.length >> 8) & 0xFF;
-            keyBuffer[1] = keyBytes.length & 0xFF;
-            keyBuffer.set(keyBytes, 2);
+    // Objects and arrays sent before are sent as a 2 bytes index
+    const index = references.get(value);
+    if (index !== undefined && index <= 0xFFFF) {
+        return new Uint8Array([
+            AMF0DataType.REFERENCE,
+            (index >> 8) & 0xFF,
+            index & 0xFF,
+        ]);
+    }
+    references.set(value, references.size);
 
-            buffers.push(keyBuffer);
+    if (Array.isArray(value)) {
+        // Strict array: 1 byte type marker + 4 bytes length + array elements
+        const header = new Uint8Array(5);
+        header[0] = AMF0DataType.STRICT_ARRAY;
+        new DataView(header.buffer).setUint32(1, value.length);
 
-            // Property value
-            buffers.push(encodeAMF0Value(propValue));
-        }
+        return concat([
+            header,
+            ...value.map((element) => encodeAMF0Value(element, references)),
+        ]);
+    }
 
-        // End marker (empty string followed by OBJECT_END byte)
-        buffers.push(new Uint8Array([0, 0, AMF0DataType.OBJECT_END]));
+    if (value instanceof TypedObject) {
+        // Typed object: 1 byte type marker + class name + properties
+        return concat([
+            new Uint8Array([AMF0DataType.TYPED_OBJECT]),
+            encodeAMF0PropertyName(value.className),
+            ...encodeAMF0Properties(
+                value.properties as { [key: string]: AMF0Value },
+                references,
+            ),
+        ]);
+    }
 
-        // Combine all buffers
-        const totalLength = buffers.reduce(
-            (sum, buffer) => sum + buffer.length,
-            0,
-        );
-        const result = new Uint8Array(totalLength);
+    if (value instanceof ECMAArray) {
+        // ECMA array: 1 byte type marker + 4 bytes count + properties
+        const header = new Uint8Array(5);
+        header[0] = AMF0DataType.ECMA_ARRAY;
+        new DataView(header.buffer).setUint32(1, Object.keys(value).length);
 
-        let position = 0;
-        for (const buffer of buffers) {
-            result.set(buffer, position);
-            position += buffer.length;
-        }
+        return concat([
+            header,
+            ...encodeAMF0Properties(value, references),
+        ]);
+    }
 
-        return result;
+    if (typeof value === "object") {
+        // Anonymous object: 1 byte type marker + properties
+        return concat([
+            new Uint8Array([AMF0DataType.OBJECT]),
+            ...encodeAMF0Properties(value, references),
+        ]);
     }
 
     // Fallback
     console.warn(`Unsupported AMF0 value type: ${typeof value}`);
-    return new Uint8Array([AMF0DataType.NULL]);
+    return new Uint8Array([AMF0DataType.UNSUPPORTED]);
+}
+
+/**
+ * Property names and values, then the end marker
+ * (empty string followed by OBJECT_END byte)
+ */
+function encodeAMF0Properties(
+    properties: { [key: string]: AMF0Value },
+    references: Map<object, number>,
+): Uint8Array[] {
+    const buffers: Uint8Array[] = [];
+    for (const [key, propValue] of Object.entries(properties)) {
+        buffers.push(encodeAMF0PropertyName(key));
+        buffers.push(encodeAMF0Value(propValue, references));
+    }
+    buffers.push(new Uint8Array([0, 0, AMF0DataType.OBJECT_END]));
+    return buffers;
+}
+
+/**
+ * A string without type marker: 2 bytes length + string data
+ */
+function encodeAMF0PropertyName(name: string): Uint8Array {
+    const nameBytes = new TextEncoder().encode(name);
+    const buffer = new Uint8Array(2 + nameBytes.length);
+    buffer[0] = (nameBytes.length >> 8) & 0xFF;
+    buffer[1] = nameBytes.length & 0xFF;
+    buffer.set(nameBytes, 2);
+    return buffer;
+}
+
+function encodeLongString(type: AMF0DataType, bytes: Uint8Array) {
+    const buffer = new Uint8Array(5 + bytes.length);
+    buffer[0] = type;
+    new DataView(buffer.buffer).setUint32(1, bytes.length);
+    buffer.set(bytes, 5);
+    return buffer;
 }
 
 /**
@@ -433,6 +575,7 @@ export function encodeAMF0Command(
     commandObject: Record<string, AMF0Value> | null,
     ...additionalParams: AMF0Value[]
 ): Uint8Array {
+    const references = new Map<object, number>();
     const buffers: Uint8Array[] = [];
 
     // Command name
@@ -442,22 +585,12 @@ export function encodeAMF0Command(
     buffers.push(encodeAMF0Value(transactionId));
 
     // Command object
-    buffers.push(encodeAMF0Value(commandObject || null));
+    buffers.push(encodeAMF0Value(commandObject || null, references));
 
     // Additional parameters
     for (const param of additionalParams) {
-        buffers.push(encodeAMF0Value(param));
-    }
-
-    // Combine all buffers
-    const totalLength = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
-    const result = new Uint8Array(totalLength);
-
-    let position = 0;
-    for (const buffer of buffers) {
-        result.set(buffer, position);
-        position += buffer.length;
+        buffers.push(encodeAMF0Value(param, references));
     }
 
-    return result;
+    return concat(buffers);
 }
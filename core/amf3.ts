@@ -0,0 +1,694 @@
+/**
+ * AMF3 Data Types
+ * https://rtmp.veriskope.com/pdf/amf3-file-format-spec.pdf
+ */
+export enum AMF3DataType {
+    UNDEFINED = 0x00,
+    NULL = 0x01,
+    FALSE = 0x02,
+    TRUE = 0x03,
+    INTEGER = 0x04,
+    DOUBLE = 0x05,
+    STRING = 0x06,
+    XML_DOCUMENT = 0x07,
+    DATE = 0x08,
+    ARRAY = 0x09,
+    OBJECT = 0x0A,
+    XML = 0x0B,
+    BYTE_ARRAY = 0x0C,
+    VECTOR_INT = 0x0D,
+    VECTOR_UINT = 0x0E,
+    VECTOR_DOUBLE = 0x0F,
+    VECTOR_OBJECT = 0x10,
+    DICTIONARY = 0x11,
+}
+
+export type AMF3Value =
+    | number
+    | boolean
+    | string
+    | { [key: string]: AMF3Value }
+    | null
+    | undefined
+    | AMF3Value[]
+    | Date
+    | Uint8Array
+    | TypedObject
+    | AMF3Xml
+    | AMF3Vector
+    | Map<AMF3Value, AMF3Value>;
+
+/**
+ * An object of a registered class, sealed properties are kept in order
+ */
+export class TypedObject {
+    constructor(
+        readonly className: string,
+        readonly properties: { [key: string]: AMF3Value },
+    ) {}
+}
+
+/**
+ * XML is kept as text, legacy is the flash.xml.XMLDocument flavour
+ */
+export class AMF3Xml {
+    constructor(readonly xml: string, readonly legacy = false) {}
+}
+
+/**
+ * Vector.<int>, Vector.<uint>, Vector.<Number> or Vector.<className>
+ */
+export class AMF3Vector {
+    constructor(
+        readonly type: "int" | "uint" | "double" | "object",
+        readonly items: AMF3Value[],
+        readonly fixed = false,
+        readonly className = "",
+    ) {}
+}
+
+type Traits = {
+    className: string;
+    dynamic: boolean;
+    externalizable: boolean;
+    sealed: string[];
+};
+
+// AMF3 integers are 29 bits signed
+const INTEGER_MIN = -(2 ** 28);
+const INTEGER_MAX = 2 ** 28 - 1;
+
+// the externalizable Flex classes that wrap a single value
+const EXTERNALIZABLE_WRAPPERS = [
+    "flex.messaging.io.ArrayCollection",
+    "flex.messaging.io.ArrayList",
+    "flex.messaging.io.ObjectProxy",
+];
+
+/**
+ * Parse an AMF3 value from a buffer at a given position
+ * Returns the parsed value and the new position in the buffer
+ *
+ * References only reach back to values of the same call, as in an
+ * AMF0 AVMPLUS_OBJECT or a single AMF3 message body.
+ */
+export function parseAMF3Value(
+    buffer: Uint8Array,
+    position: number,
+): { value: AMF3Value; newPosition: number } {
+    const decoder = new AMF3Decoder(buffer, position);
+    const value = decoder.read();
+    return { value, newPosition: decoder.position };
+}
+
+/**
+ * Parse an RTMP command message whose values are all AMF3 encoded
+ * Returns the command name, transaction ID, command object, and any additional parameters
+ */
+export function parseAMF3Command(buffer: Uint8Array): {
+    commandName: string;
+    transactionId: number;
+    commandObject: Record<string, AMF3Value>;
+    additionalParams: AMF3Value[];
+} {
+    const decoder = new AMF3Decoder(buffer);
+    const commandName = decoder.read();
+    const transactionId = decoder.read();
+    const commandObject = decoder.read();
+
+    const additionalParams: AMF3Value[] = [];
+    while (decoder.position < buffer.length) {
+        additionalParams.push(decoder.read());
+    }
+
+    return {
+        commandName: commandName as string,
+        transactionId: transactionId as number,
+        commandObject: commandObject as Record<string, AMF3Value>,
+        additionalParams,
+    };
+}
+
+/**
+ * Encode an AMF3 value to a buffer
+ */
+export function encodeAMF3Value(value: AMF3Value): Uint8Array {
+    const encoder = new AMF3Encoder();
+    encoder.write(value);
+    return encoder.bytes();
+}
+
+/**
+ * Reads AMF3 values, keeping the string, object and trait reference
+ * tables of one AMF3 context
+ */
+export class AMF3Decoder {
+    private readonly strings: string[] = [];
+    private readonly objects: AMF3Value[] = [];
+    private readonly traits: Traits[] = [];
+    private readonly view: DataView;
+
+    constructor(private readonly buffer: Uint8Array, public position = 0) {
+        this.view = new DataView(
+            buffer.buffer,
+            buffer.byteOffset,
+            buffer.byteLength,
+        );
+    }
+
+    read(): AMF3Value {
+        const type = this.readByte();
+        switch (type) {
+            case AMF3DataType.UNDEFINED:
+                return undefined;
+            case AMF3DataType.NULL:
+                return null;
+            case AMF3DataType.FALSE:
+                return false;
+            case AMF3DataType.TRUE:
+                return true;
+            case AMF3DataType.INTEGER: {
+                // sign extend the 29 bits
+                const value = this.readU29();
+                return value & 0x10000000 ? value - 0x20000000 : value;
+            }
+            case AMF3DataType.DOUBLE:
+                return this.readDouble();
+            case AMF3DataType.STRING:
+                return this.readString();
+            case AMF3DataType.XML_DOCUMENT:
+            case AMF3DataType.XML:
+                return this.readXml(type == AMF3DataType.XML_DOCUMENT);
+            case AMF3DataType.DATE:
+                return this.readDate();
+            case AMF3DataType.ARRAY:
+                return this.readArray();
+            case AMF3DataType.OBJECT:
+                return this.readObject();
+            case AMF3DataType.BYTE_ARRAY:
+                return this.readByteArray();
+            case AMF3DataType.VECTOR_INT:
+            case AMF3DataType.VECTOR_UINT:
+            case AMF3DataType.VECTOR_DOUBLE:
+            case AMF3DataType.VECTOR_OBJECT:
+                return this.readVector(type);
+            case AMF3DataType.DICTIONARY:
+                return this.readDictionary();
+            default:
+                throw new Error(
+                    `Unsupported AMF3 type ${type} at ${this.position - 1}`,
+                );
+        }
+    }
+
+    private readByte() {
+        if (this.position >= this.buffer.length) {
+            throw new Error("AMF3 value ends early");
+        }
+        return this.buffer[this.position++];
+    }
+
+    // https://rtmp.veriskope.com/pdf/amf3-file-format-spec.pdf 1.3.1
+    private readU29() {
+        let value = 0;
+        for (let i = 0; i < 3; i++) {
+            const byte = this.readByte();
+            if ((byte & 0x80) == 0) {
+                return (value << 7) | byte;
+            }
+            value = (value << 7) | (byte & 0x7f);
+        }
+        return (value << 8) | this.readByte();
+    }
+
+    private readDouble() {
+        const value = this.view.getFloat64(this.position, false);
+        this.position += 8;
+        return value;
+    }
+
+    private readUtf8(length: number) {
+        if (this.position + length > this.buffer.length) {
+            throw new Error("AMF3 string ends early");
+        }
+        const value = new TextDecoder().decode(
+            this.buffer.subarray(this.position, this.position + length),
+        );
+        this.position += length;
+        return value;
+    }
+
+    private readString(): string {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(this.strings, header >> 1, "string");
+        }
+        const value = this.readUtf8(header >> 1);
+        // the empty string is never sent by reference
+        if (value != "") {
+            this.strings.push(value);
+        }
+        return value;
+    }
+
+    private readXml(legacy: boolean): AMF3Xml {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(this.objects, header >> 1, "xml") as AMF3Xml;
+        }
+        const value = new AMF3Xml(this.readUtf8(header >> 1), legacy);
+        this.objects.push(value);
+        return value;
+    }
+
+    private readDate(): Date {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(this.objects, header >> 1, "date") as Date;
+        }
+        const value = new Date(this.readDouble());
+        this.objects.push(value);
+        return value;
+    }
+
+    private readArray(): AMF3Value[] {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(
+                this.objects,
+                header >> 1,
+                "array",
+            ) as AMF3Value[];
+        }
+        const array: AMF3Value[] = [];
+        this.objects.push(array);
+
+        // the associative part is kept as properties of the array
+        const associative = array as unknown as { [key: string]: AMF3Value };
+        for (let key = this.readString(); key != ""; key = this.readString()) {
+            associative[key] = this.read();
+        }
+        const length = header >> 1;
+        for (let i = 0; i < length; i++) {
+            array.push(this.read());
+        }
+        return array;
+    }
+
+    private readObject(): AMF3Value {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(this.objects, header >> 1, "object");
+        }
+
+        let traits: Traits;
+        if ((header & 2) == 0) {
+            traits = this.reference(this.traits, header >> 2, "traits");
+        } else {
+            traits = {
+                externalizable: (header & 4) != 0,
+                dynamic: (header & 8) != 0,
+                className: this.readString(),
+                sealed: [],
+            };
+            for (let i = 0; i < header >> 4; i++) {
+                traits.sealed.push(this.readString());
+            }
+            this.traits.push(traits);
+        }
+
+        if (traits.externalizable) {
+            if (!EXTERNALIZABLE_WRAPPERS.includes(traits.className)) {
+                throw new Error(
+                    `Cannot read externalizable AMF3 class ${traits.className}`,
+                );
+            }
+            const index = this.objects.length;
+            this.objects.push(null);
+            const value = this.read();
+            this.objects[index] = value;
+            return value;
+        }
+
+        const properties: { [key: string]: AMF3Value } = {};
+        const value = traits.className
+            ? new TypedObject(traits.className, properties)
+            : properties;
+        this.objects.push(value);
+        for (const name of traits.sealed) {
+            properties[name] = this.read();
+        }
+        if (traits.dynamic) {
+            for (
+                let key = this.readString();
+                key != "";
+                key = this.readString()
+            ) {
+                properties[key] = this.read();
+            }
+        }
+        return value;
+    }
+
+    private readByteArray(): Uint8Array {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(
+                this.objects,
+                header >> 1,
+                "byte array",
+            ) as Uint8Array;
+        }
+        const length = header >> 1;
+        if (this.position + length > this.buffer.length) {
+            throw new Error("AMF3 byte array ends early");
+        }
+        const value = this.buffer.slice(this.position, this.position + length);
+        this.position += length;
+        this.objects.push(value);
+        return value;
+    }
+
+    private readVector(type: number): AMF3Vector {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(
+                this.objects,
+                header >> 1,
+                "vector",
+            ) as AMF3Vector;
+        }
+        const length = header >> 1;
+        const fixed = this.readByte() != 0;
+        const items: AMF3Value[] = [];
+        let vector: AMF3Vector;
+        switch (type) {
+            case AMF3DataType.VECTOR_INT:
+                vector = new AMF3Vector("int", items, fixed);
+                break;
+            case AMF3DataType.VECTOR_UINT:
+                vector = new AMF3Vector("uint", items, fixed);
+                break;
+            case AMF3DataType.VECTOR_DOUBLE:
+                vector = new AMF3Vector("double", items, fixed);
+                break;
+            default:
+                vector = new AMF3Vector(
+                    "object",
+                    items,
+                    fixed,
+                    this.readString(),
+                );
+        }
+        this.objects.push(vector);
+
+        for (let i = 0; i < length; i++) {
+            switch (vector.type) {
+                case "int":
+                    items.push(this.view.getInt32(this.position, false));
+                    this.position += 4;
+                    break;
+                case "uint":
+                    items.push(this.view.getUint32(this.position, false));
+                    this.position += 4;
+                    break;
+                case "double":
+                    items.push(this.readDouble());
+                    break;
+                default:
+                    items.push(this.read());
+            }
+        }
+        return vector;
+    }
+
+    private readDictionary(): Map<AMF3Value, AMF3Value> {
+        const header = this.readU29();
+        if ((header & 1) == 0) {
+            return this.reference(
+                this.objects,
+                header >> 1,
+                "dictionary",
+            ) as Map<AMF3Value, AMF3Value>;
+        }
+        // weak keys make no difference here
+        this.readByte();
+        const dictionary = new Map<AMF3Value, AMF3Value>();
+        this.objects.push(dictionary);
+        for (let i = 0; i < header >> 1; i++) {
+            const key = this.read();
+            dictionary.set(key, this.read());
+        }
+        return dictionary;
+    }
+
+    private reference<T>(table: T[], index: number, kind: string): T {
+        if (index >= table.length) {
+            throw new Error(`Invalid AMF3 ${kind} reference ${index}`);
+        }
+        return table[index];
+    }
+}
+
+/**
+ * Writes AMF3 values, sending repeated strings, objects and traits
+ * by reference
+ */
+export class AMF3Encoder {
+    private readonly strings = new Map<string, number>();
+    private readonly objects = new Map<object, number>();
+    private readonly traits = new Map<string, number>();
+    private readonly out: number[] = [];
+
+    bytes(): Uint8Array {
+        return new Uint8Array(this.out);
+    }
+
+    write(value: AMF3Value): void {
+        if (value === undefined) {
+            this.out.push(AMF3DataType.UNDEFINED);
+        } else if (value === null) {
+            this.out.push(AMF3DataType.NULL);
+        } else if (typeof value === "boolean") {
+            this.out.push(value ? AMF3DataType.TRUE : AMF3DataType.FALSE);
+        } else if (typeof value === "number") {
+            if (
+                Number.isInteger(value) && value >= INTEGER_MIN &&
+                value <= INTEGER_MAX && !Object.is(value, -0)
+            ) {
+                this.out.push(AMF3DataType.INTEGER);
+                this.writeU29(value & 0x1fffffff);
+            } else {
+                this.out.push(AMF3DataType.DOUBLE);
+                this.writeDouble(value);
+            }
+        } else if (typeof value === "string") {
+            this.out.push(AMF3DataType.STRING);
+            this.writeString(value);
+        } else if (value instanceof AMF3Xml) {
+            this.out.push(
+                value.legacy ? AMF3DataType.XML_DOCUMENT : AMF3DataType.XML,
+            );
+            if (this.writeReference(value)) {
+                return;
+            }
+            this.writeUtf8(value.xml);
+        } else if (value instanceof Date) {
+            this.out.push(AMF3DataType.DATE);
+            if (this.writeReference(value)) {
+                return;
+            }
+            this.writeU29(1);
+            this.writeDouble(value.getTime());
+        } else if (Array.isArray(value)) {
+            this.writeArray(value);
+        } else if (value instanceof Uint8Array) {
+            this.out.push(AMF3DataType.BYTE_ARRAY);
+            if (this.writeReference(value)) {
+                return;
+            }
+            this.writeU29((value.length << 1) | 1);
+            this.writeBytes(value);
+        } else if (value instanceof AMF3Vector) {
+            this.writeVector(value);
+        } else if (value instanceof Map) {
+            this.out.push(AMF3DataType.DICTIONARY);
+            if (this.writeReference(value)) {
+                return;
+            }
+            this.writeU29((value.size << 1) | 1);
+            this.out.push(0); // no weak keys
+            for (const [key, item] of value) {
+                this.write(key);
+                this.write(item);
+            }
+        } else {
+            this.writeObject(value);
+        }
+    }
+
+    private writeU29(value: number) {
+        if (value < 0x80) {
+            this.out.push(value);
+        } else if (value < 0x4000) {
+            this.out.push((value >> 7) | 0x80, value & 0x7f);
+        } else if (value < 0x200000) {
+            this.out.push(
+                (value >> 14) | 0x80,
+                ((value >> 7) & 0x7f) | 0x80,
+                value & 0x7f,
+            );
+        } else {
+            this.out.push(
+                (value >> 22) | 0x80,
+                ((value >> 15) & 0x7f) | 0x80,
+                ((value >> 8) & 0x7f) | 0x80,
+                value & 0xff,
+            );
+        }
+    }
+
+    private writeBytes(bytes: Uint8Array) {
+        for (const byte of bytes) {
+            this.out.push(byte);
+        }
+    }
+
+    private writeDouble(value: number) {
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setFloat64(0, value, false);
+        this.writeBytes(bytes);
+    }
+
+    private writeUtf8(value: string) {
+        const bytes = new TextEncoder().encode(value);
+        this.writeU29((bytes.length << 1) | 1);
+        this.writeBytes(bytes);
+    }
+
+    private writeString(value: string) {
+        const index = this.strings.get(value);
+        if (index !== undefined) {
+            this.writeU29(index << 1);
+            return;
+        }
+        if (value != "") {
+            this.strings.set(value, this.strings.size);
+        }
+        this.writeUtf8(value);
+    }
+
+    /**
+     * Writes the reference if the object was written before, otherwise
+     * adds it to the table and leaves the inline value to the caller
+     */
+    private writeReference(value: object) {
+        const index = this.objects.get(value);
+        if (index !== undefined) {
+            this.writeU29(index << 1);
+            return true;
+        }
+        this.objects.set(value, this.objects.size);
+        return false;
+    }
+
+    private writeArray(value: AMF3Value[]) {
+        this.out.push(AMF3DataType.ARRAY);
+        if (this.writeReference(value)) {
+            return;
+        }
+        this.writeU29((value.length << 1) | 1);
+        for (const key of Object.keys(value)) {
+            if (!isArrayIndex(key, value.length)) {
+                this.writeString(key);
+                this.write(
+                    (value as unknown as { [key: string]: AMF3Value })[key],
+                );
+            }
+        }
+        this.writeString("");
+        for (const item of value) {
+            this.write(item);
+        }
+    }
+
+    private writeVector(value: AMF3Vector) {
+        const types = {
+            int: AMF3DataType.VECTOR_INT,
+            uint: AMF3DataType.VECTOR_UINT,
+            double: AMF3DataType.VECTOR_DOUBLE,
+            object: AMF3DataType.VECTOR_OBJECT,
+        };
+        this.out.push(types[value.type]);
+        if (this.writeReference(value)) {
+            return;
+        }
+        this.writeU29((value.items.length << 1) | 1);
+        this.out.push(value.fixed ? 1 : 0);
+        if (value.type == "object") {
+            this.writeString(value.className);
+        }
+        const bytes = new Uint8Array(8);
+        const view = new DataView(bytes.buffer);
+        for (const item of value.items) {
+            switch (value.type) {
+                case "int":
+                    view.setInt32(0, item as number, false);
+                    this.writeBytes(bytes.subarray(0, 4));
+                    break;
+                case "uint":
+                    view.setUint32(0, item as number, false);
+                    this.writeBytes(bytes.subarray(0, 4));
+                    break;
+                case "double":
+                    this.writeDouble(item as number);
+                    break;
+                default:
+                    this.write(item);
+            }
+        }
+    }
+
+    private writeObject(value: TypedObject | { [key: string]: AMF3Value }) {
+        this.out.push(AMF3DataType.OBJECT);
+        if (this.writeReference(value)) {
+            return;
+        }
+
+        // typed objects are sealed, anonymous ones dynamic
+        const typed = value instanceof TypedObject;
+        const className = typed ? value.className : "";
+        const properties = typed ? value.properties : value;
+        const sealed = typed ? Object.keys(properties) : [];
+
+        const traitsKey = JSON.stringify([className, sealed]);
+        const index = this.traits.get(traitsKey);
+        if (index !== undefined) {
+            this.writeU29((index << 2) | 1);
+        } else {
+            this.traits.set(traitsKey, this.traits.size);
+            this.writeU29((sealed.length << 4) | (typed ? 0 : 8) | 3);
+            this.writeString(className);
+            for (const name of sealed) {
+                this.writeString(name);
+            }
+        }
+
+        for (const name of sealed) {
+            this.write(properties[name]);
+        }
+        if (!typed) {
+            for (const [key, item] of Object.entries(properties)) {
+                this.writeString(key);
+                this.write(item);
+            }
+            this.writeString("");
+        }
+    }
+}
+
+function isArrayIndex(key: string, length: number) {
+    const index = Number(key);
+    return Number.isInteger(index) && index >= 0 && index < length &&
+        String(index) == key;
+}
@@ -0,0 +1,162 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+    AMF3DataType,
+    AMF3Decoder,
+    AMF3Encoder,
+    AMF3Value,
+    AMF3Vector,
+    AMF3Xml,
+    encodeAMF3Value,
+    parseAMF3Value,
+    TypedObject,
+} from "./amf3.ts";
+
+function roundTrip(value: AMF3Value) {
+    const encoded = encodeAMF3Value(value);
+    const { value: decoded, newPosition } = parseAMF3Value(encoded, 0);
+    assertEquals(newPosition, encoded.length);
+    return decoded;
+}
+
+Deno.test("AMF3 scalars round-trip", () => {
+    assertEquals(roundTrip(undefined), undefined);
+    assertEquals(roundTrip(null), null);
+    assertEquals(roundTrip(true), true);
+    assertEquals(roundTrip(false), false);
+    assertEquals(roundTrip("streamany"), "streamany");
+    assertEquals(roundTrip(""), "");
+    assertEquals(
+        (roundTrip(new Date(1700000000000)) as Date).getTime(),
+        1700000000000,
+    );
+});
+
+Deno.test("AMF3 integers are 29 bits, other numbers doubles", () => {
+    for (const n of [0, 127, 128, 16383, 16384, 2 ** 28 - 1, -1, -(2 ** 28)]) {
+        const encoded = encodeAMF3Value(n);
+        assertEquals(encoded[0], AMF3DataType.INTEGER);
+        assertEquals(roundTrip(n), n);
+    }
+    for (const n of [2 ** 28, -(2 ** 28) - 1, 1.5]) {
+        assertEquals(encodeAMF3Value(n)[0], AMF3DataType.DOUBLE);
+        assertEquals(roundTrip(n), n);
+    }
+    // U29 uses 1 to 4 bytes
+    assertEquals(encodeAMF3Value(127), new Uint8Array([0x04, 0x7f]));
+    assertEquals(encodeAMF3Value(128), new Uint8Array([0x04, 0x81, 0x00]));
+    assertEquals(
+        encodeAMF3Value(2 ** 28 - 1),
+        new Uint8Array([0x04, 0xbf, 0xff, 0xff, 0xff]),
+    );
+});
+
+Deno.test("AMF3 objects, arrays and byte arrays round-trip", () => {
+    const value = {
+        code: "NetStream.Publish.Start",
+        level: "status",
+        list: [1, "two", null, { deep: true }],
+        bytes: new Uint8Array([1, 2, 3]),
+    };
+    assertEquals(roundTrip(value), value);
+});
+
+Deno.test("AMF3 typed objects, XML, vectors and dictionaries round-trip", () => {
+    const typed = roundTrip(new TypedObject("com.example.Foo", { x: 1 }));
+    assert(typed instanceof TypedObject);
+    assertEquals(typed.className, "com.example.Foo");
+    assertEquals(typed.properties, { x: 1 });
+
+    const xml = roundTrip(new AMF3Xml("<a/>"));
+    assert(xml instanceof AMF3Xml);
+    assertEquals([xml.xml, xml.legacy], ["<a/>", false]);
+
+    const vector = roundTrip(new AMF3Vector("int", [1, -2, 3], true));
+    assert(vector instanceof AMF3Vector);
+    assertEquals(
+        [vector.type, vector.items, vector.fixed],
+        ["int", [1, -2, 3], true],
+    );
+
+    const dictionary = roundTrip(new Map<AMF3Value, AMF3Value>([["k", 1]]));
+    assert(dictionary instanceof Map);
+    assertEquals(dictionary.get("k"), 1);
+});
+
+Deno.test("AMF3 repeated strings are sent by reference", () => {
+    // the second "abc" is string reference 0, U29 0 << 1
+    assertEquals(
+        encodeAMF3Value(["abc", "abc"]),
+        new Uint8Array([
+            AMF3DataType.ARRAY,
+            0x05, // 2 dense items
+            0x01, // no associative items
+            AMF3DataType.STRING,
+            0x07,
+            ...new TextEncoder().encode("abc"),
+            AMF3DataType.STRING,
+            0x00,
+        ]),
+    );
+    assertEquals(roundTrip(["abc", "abc"]), ["abc", "abc"]);
+});
+
+Deno.test("AMF3 repeated objects are sent by reference", () => {
+    const shared = { a: 1 };
+    const encoded = encodeAMF3Value([shared, shared]);
+    // object reference 1, the array itself being 0
+    assertEquals(
+        Array.from(encoded.subarray(-2)),
+        [AMF3DataType.OBJECT, 0x02],
+    );
+
+    const decoded = roundTrip([shared, shared]) as AMF3Value[];
+    assert(decoded[0] === decoded[1]);
+    assertEquals(decoded[0], shared);
+});
+
+Deno.test("AMF3 traits of a class are sent once", () => {
+    const encoded = encodeAMF3Value([
+        new TypedObject("C", { x: 1 }),
+        new TypedObject("C", { x: 2 }),
+    ]);
+    // the second object refers to trait 0, U29O-traits-ref 0b01
+    assertEquals(
+        Array.from(encoded.subarray(-4)),
+        [AMF3DataType.OBJECT, 0x01, AMF3DataType.INTEGER, 2],
+    );
+
+    const decoded = parseAMF3Value(encoded, 0).value as TypedObject[];
+    assertEquals(decoded.map((o) => [o.className, o.properties.x]), [
+        ["C", 1],
+        ["C", 2],
+    ]);
+});
+
+Deno.test("AMF3 cyclic objects round-trip", () => {
+    const cyclic: { [key: string]: AMF3Value } = { name: "cycle" };
+    cyclic.self = cyclic;
+    const decoded = roundTrip(cyclic) as { [key: string]: AMF3Value };
+    assertEquals(decoded.name, "cycle");
+    assert(decoded.self === decoded);
+});
+
+Deno.test("AMF3 reference tables last for one encoder and decoder", () => {
+    const encoder = new AMF3Encoder();
+    encoder.write("name");
+    encoder.write("name");
+    const encoded = encoder.bytes();
+    assertEquals(Array.from(encoded.subarray(-2)), [AMF3DataType.STRING, 0]);
+
+    const decoder = new AMF3Decoder(encoded);
+    assertEquals([decoder.read(), decoder.read()], ["name", "name"]);
+    assertEquals(decoder.position, encoded.length);
+
+    // a fresh decoder has no string 0 to refer to
+    let threw = false;
+    try {
+        new AMF3Decoder(encoded, encoded.length - 2).read();
+    } catch {
+        threw = true;
+    }
+    assert(threw);
+});
@@ -0,0 +1,121 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+    AMF0DataType,
+    AMF0Value,
+    ECMAArray,
+    encodeAMF0Command,
+    encodeAMF0Value,
+    parseAMF0Command,
+    parseAMF0Value,
+    UNSUPPORTED,
+    Unsupported,
+} from "./amf.ts";
+import { AMF3Xml, TypedObject } from "./amf3.ts";
+
+function roundTrip(value: AMF0Value) {
+    const encoded = encodeAMF0Value(value);
+    const { value: decoded, newPosition } = parseAMF0Value(encoded, 0);
+    assertEquals(newPosition, encoded.length);
+    return decoded;
+}
+
+Deno.test("AMF0 scalars round-trip", () => {
+    assertEquals(roundTrip(1.5), 1.5);
+    assertEquals(roundTrip(-0x100000000), -0x100000000);
+    assertEquals(roundTrip(true), true);
+    assertEquals(roundTrip(false), false);
+    assertEquals(roundTrip("streamany"), "streamany");
+    assertEquals(roundTrip("überstream"), "überstream");
+    assertEquals(roundTrip(null), null);
+    assertEquals(roundTrip(undefined), undefined);
+    assertEquals(
+        (roundTrip(new Date(1700000000000)) as Date).getTime(),
+        1700000000000,
+    );
+});
+
+Deno.test("AMF0 strings over 65535 bytes are LONG_STRING", () => {
+    const long = "x".repeat(70000);
+    const encoded = encodeAMF0Value(long);
+    assertEquals(encoded[0], AMF0DataType.LONG_STRING);
+    assertEquals(roundTrip(long), long);
+});
+
+Deno.test("AMF0 objects, arrays and ECMA arrays round-trip", () => {
+    const value = {
+        app: "live",
+        tcUrl: "rtmp://localhost/live",
+        nested: { list: [1, "two", null] },
+    };
+    assertEquals(roundTrip(value), value);
+
+    const metadata = roundTrip(new ECMAArray({ width: 1280, height: 720 }));
+    assert(metadata instanceof ECMAArray);
+    assertEquals(metadata.width, 1280);
+    assertEquals(metadata.height, 720);
+});
+
+Deno.test("AMF0 encodes ECMA arrays with their count", () => {
+    assertEquals(
+        encodeAMF0Value(new ECMAArray({ a: 1 })),
+        new Uint8Array([
+            AMF0DataType.ECMA_ARRAY,
+            ...[0, 0, 0, 1],
+            ...[0, 1, 0x61],
+            AMF0DataType.NUMBER,
+            ...[0x3f, 0xf0, 0, 0, 0, 0, 0, 0],
+            ...[0, 0, AMF0DataType.OBJECT_END],
+        ]),
+    );
+});
+
+Deno.test("AMF0 repeated objects are sent by reference", () => {
+    const shared = { a: 1 };
+    const encoded = encodeAMF0Value([shared, shared]);
+    // the second element is REFERENCE 1, the array itself being 0
+    assertEquals(
+        Array.from(encoded.subarray(-3)),
+        [AMF0DataType.REFERENCE, 0, 1],
+    );
+
+    const decoded = roundTrip([shared, shared]) as AMF0Value[];
+    assert(decoded[0] === decoded[1]);
+    assertEquals(decoded[0], shared);
+});
+
+Deno.test("AMF0 cyclic objects round-trip", () => {
+    const cyclic: { [key: string]: AMF0Value } = { name: "cycle" };
+    cyclic.self = cyclic;
+    const decoded = roundTrip(cyclic) as { [key: string]: AMF0Value };
+    assertEquals(decoded.name, "cycle");
+    assert(decoded.self === decoded);
+});
+
+Deno.test("AMF0 references are shared by the values of a command", () => {
+    const shared = { a: 1 };
+    const encoded = encodeAMF0Command("test", 2, shared, shared);
+    const command = parseAMF0Command(encoded);
+    assertEquals(command.commandName, "test");
+    assertEquals(command.transactionId, 2);
+    assertEquals(command.commandObject, shared);
+    assert(command.additionalParams[0] === command.commandObject);
+});
+
+Deno.test("AMF0 typed objects and UNSUPPORTED round-trip", () => {
+    const typed = roundTrip(new TypedObject("com.example.Foo", { p: 1 }));
+    assert(typed instanceof TypedObject);
+    assertEquals(typed.className, "com.example.Foo");
+    assertEquals(typed.properties, { p: 1 });
+
+    assert(roundTrip(UNSUPPORTED) instanceof Unsupported);
+});
+
+Deno.test("AMF0 switches to AMF3 for values only AMF3 can carry", () => {
+    const bytes = encodeAMF0Value(new Uint8Array([7]));
+    assertEquals(bytes[0], AMF0DataType.AVMPLUS_OBJECT);
+    assertEquals(roundTrip(new Uint8Array([7])), new Uint8Array([7]));
+
+    const xml = roundTrip(new AMF3Xml("<doc/>", true));
+    assert(xml instanceof AMF3Xml);
+    assertEquals(xml.xml, "<doc/>");
+});
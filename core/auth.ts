@@ -0,0 +1,65 @@
+/**
+ * Publish authorization with stream keys
+ *
+ * A publisher is accepted when it passes a publish key as token, either
+ *   - in the stream name:                rtmp://host/live/stream?token=<key>
+ *   - or in the app it connected to:     rtmp://host/live?token=<key>/stream
+ *
+ * The stream name itself is public, it is served over HTTP and reported
+ * in stats and webhooks, so it is never taken as a key.
+ */
+export function authorizePublish(
+    keys: string[],
+    streamName: string,
+    connectQuery = "",
+): Error | undefined {
+    const [name, query] = splitQuery(streamName);
+    const token = new URLSearchParams(query).get("token") ??
+        new URLSearchParams(connectQuery).get("token");
+    // every key is compared, so the time taken tells nothing either
+    let valid = false;
+    for (const key of keys) {
+        valid = (token !== null && timingSafeEqual(key, token)) || valid;
+    }
+    if (valid) {
+        return;
+    }
+    return new Error(
+        token
+            ? `invalid publish token for ${name}`
+            : `publishing ${name} requires a publish key as token`,
+    );
+}
+
+/**
+ * Compares two strings in a time that only depends on their lengths
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    const x = new TextEncoder().encode(a);
+    const y = new TextEncoder().encode(b);
+    let diff = x.length ^ y.length;
+    for (let i = 0; i < x.length; i++) {
+        diff |= x[i] ^ (y[i % Math.max(y.length, 1)] ?? 0);
+    }
+    return diff == 0;
+}
+
+/**
+ * A random 128 bits key, hex encoded
+ */
+export function generatePublishKey(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * "name?a=b" => ["name", "a=b"]
+ */
+export function splitQuery(name: string): [string, string] {
+    const i = name.indexOf("?");
+    if (i < 0) {
+        return [name, ""];
+    }
+    return [name.slice(0, i), name.slice(i + 1)];
+}
@@ -0,0 +1,113 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+    authorizePublish,
+    generatePublishKey,
+    splitQuery,
+    timingSafeEqual,
+} from "./auth.ts";
+import { RtmpClient } from "./client.ts";
+import { run_relay } from "./relay.ts";
+
+const KEYS = ["old-key", "new-key"];
+
+Deno.test("authorizePublish accepts a key as token", () => {
+    assertEquals(authorizePublish(KEYS, "stream?token=new-key"), undefined);
+    assertEquals(authorizePublish(KEYS, "stream?a=b&token=old-key"), undefined);
+    // from the app the client connected to
+    assertEquals(
+        authorizePublish(KEYS, "stream", "token=new-key"),
+        undefined,
+    );
+});
+
+Deno.test("authorizePublish rejects missing and unknown tokens", () => {
+    const missing = authorizePublish(KEYS, "stream");
+    assert(missing instanceof Error);
+    assertEquals(
+        missing.message,
+        "publishing stream requires a publish key as token",
+    );
+
+    const unknown = authorizePublish(KEYS, "stream?token=guess");
+    assert(unknown instanceof Error);
+    // the token is not repeated
+    assertEquals(unknown.message, "invalid publish token for stream");
+
+    // the stream name is public, it is not a key
+    assert(authorizePublish(KEYS, "new-key") instanceof Error);
+    assert(authorizePublish(KEYS, "stream?token=") instanceof Error);
+    assert(authorizePublish(KEYS, "stream?token=new-key-") instanceof Error);
+    // the stream's token wins over the connect query's
+    assert(
+        authorizePublish(KEYS, "stream?token=guess", "token=new-key") instanceof
+            Error,
+    );
+    // run_relay skips it when no keys are configured, with none nothing
+    // is a valid token
+    assert(authorizePublish([], "stream?token=") instanceof Error);
+});
+
+Deno.test("timingSafeEqual", () => {
+    assert(timingSafeEqual("key", "key"));
+    assert(timingSafeEqual("", ""));
+    assert(!timingSafeEqual("key", "kez"));
+    assert(!timingSafeEqual("key", "ke"));
+    assert(!timingSafeEqual("ke", "key"));
+    assert(!timingSafeEqual("key", ""));
+    assert(!timingSafeEqual("", "key"));
+    // a repeated prefix is not equal either
+    assert(!timingSafeEqual("abab", "ab"));
+    assert(timingSafeEqual("clé", "clé"));
+    assert(!timingSafeEqual("clé", "cle"));
+});
+
+Deno.test("generatePublishKey and splitQuery", () => {
+    const key = generatePublishKey();
+    assert(/^[0-9a-f]{32}$/.test(key));
+    assert(key != generatePublishKey());
+
+    assertEquals(splitQuery("stream"), ["stream", ""]);
+    assertEquals(splitQuery("stream?token=a?b"), ["stream", "token=a?b"]);
+    assertEquals(splitQuery("?token=a"), ["", "token=a"]);
+});
+
+Deno.test("the relay rejects publishers without a key and disconnects them", async () => {
+    let keys: string[] = [];
+    const server = run_relay(new Map(), {
+        hostname: "127.0.0.1",
+        port: 0,
+        publish_keys: () => Promise.resolve(keys),
+    });
+    assert(!(server instanceof Error));
+    const serving = server.serve();
+    const url = (path: string) =>
+        `rtmp://127.0.0.1:${server.addr!.port}/${path}`;
+    const publish = async (path: string) => {
+        const client = new RtmpClient(url(path));
+        const err = await client.connect() ?? await client.publish();
+        client.close();
+        await client.wait();
+        return err;
+    };
+
+    // anyone may publish when no keys are configured
+    assertEquals(await publish("live/open"), undefined);
+
+    keys = ["secret"];
+    const rejected = new RtmpClient(url("live/stream"));
+    assertEquals(await rejected.connect(), undefined);
+    const err = await rejected.publish();
+    assert(err instanceof Error);
+    assert(err.message.includes("NetStream.Publish.BadName"));
+    // and the server hung up
+    assertEquals(await rejected.wait(), undefined);
+    rejected.close();
+    assertEquals(server.streams.get("live/stream")?.publisher, undefined);
+
+    assert(await publish("live/stream?token=wrong") instanceof Error);
+    assertEquals(await publish("live/stream?token=secret"), undefined);
+    assertEquals(await publish("live?token=secret/stream"), undefined);
+
+    server.close();
+    await serving;
+});
@@ -1,60 +1,154 @@
+import { concat } from "@std/bytes/concat";
 import { FMT } from "./rtmp.ts";
-import { Message } from "./messages.ts";
+import { MessageType } from "./messages.ts";
 
 /**
- * Sends a message as one or more RTMP chunks over a TCP connection
- * @param conn The TCP connection to send the message over
- * @param message The RTMP message to send
- * @param chunkStreamId The chunk stream ID to use
- * @param messageStreamId The message stream ID to use
- * @param chunkSize The maximum chunk size to use
+ * Anything bytes can be written to, a Deno.Conn or a MeteredConn
  */
-export async function sendMessage(
-    conn: Deno.TcpConn,
-    message: {
-        type: number;
-        payload: Uint8Array;
-    },
-    chunkStreamId: number,
-    messageStreamId: number,
-    chunkSize: number,
-): Promise<void> {
-    const { type, payload } = message;
-    const totalLength = payload.length;
-
-    // Split the payload into chunks of maximum size chunkSize
-    for (let offset = 0; offset < totalLength; offset += chunkSize) {
-        const isFirstChunk = offset === 0;
-        const chunkData = payload.slice(offset, offset + chunkSize);
-
-        // Create and send the appropriate chunk
-        if (isFirstChunk) {
-            // First chunk - use Type 0 format with full header
-            await sendChunk(conn, {
-                fmt: FMT.Type0,
+export type Writer = {
+    write(p: Uint8Array): Promise<number>;
+};
+
+// what both sides read and write with until a SET_CHUNK_SIZE
+// https://rtmp.veriskope.com/docs/spec/#541-set-chunk-size-1
+export const DEFAULT_CHUNK_SIZE = 128;
+
+/**
+ * The header of the last message written on a chunk stream, the next
+ * header only carries what changed
+ */
+type OutboundChunkStream = {
+    messageStreamId: number;
+    messageLength: number;
+    messageTypeId: number;
+    timestamp: number;
+    // carried by the last Type 1 or 2 header. Peers disagree on what
+    // a Type 3 header after a Type 0 adds, so none is written there.
+    timestampDelta: number | undefined;
+};
+
+/**
+ * Writes messages as RTMP chunks to a connection, with the smallest
+ * header the previous message on the chunk stream allows
+ *
+ * https://rtmp.veriskope.com/docs/spec/#5312-chunk-message-header
+ */
+export class ChunkWriter {
+    // change it with setChunkSize, the peer has to know it
+    chunkSize = DEFAULT_CHUNK_SIZE;
+    private readonly chunkStreams = new Map<number, OutboundChunkStream>();
+    // messages are written whole and in the order they were sent
+    private writeLock: Promise<void> = Promise.resolve();
+
+    constructor(readonly conn: Writer) {}
+
+    /**
+     * Sends a message as one or more chunks
+     * @param chunkStreamId The chunk stream ID to use
+     * @param messageStreamId The message stream ID to use
+     */
+    writeMessage(
+        message: {
+            type: number;
+            payload: Uint8Array;
+            timestamp?: number;
+        },
+        chunkStreamId: number,
+        messageStreamId: number,
+    ): Promise<void> {
+        const bytes = this.encodeMessage(
+            message,
+            chunkStreamId,
+            messageStreamId,
+        );
+        const written = this.writeLock.then(() => writeAll(this.conn, bytes));
+        this.writeLock = written.catch(() => {});
+        return written;
+    }
+
+    /**
+     * Announces the chunk size to the peer, the messages sent after this
+     * call are written with it
+     */
+    setChunkSize(size: number): Promise<void> {
+        const payload = new Uint8Array(4);
+        // the first bit must be 0
+        new DataView(payload.buffer).setUint32(0, size & 0x7fffffff);
+        const written = this.writeMessage(
+            { type: MessageType.SET_CHUNK_SIZE, payload },
+            2,
+            0,
+        );
+        this.chunkSize = size;
+        return written;
+    }
+
+    private encodeMessage(
+        message: {
+            type: number;
+            payload: Uint8Array;
+            timestamp?: number;
+        },
+        chunkStreamId: number,
+        messageStreamId: number,
+    ): Uint8Array {
+        const { type, payload } = message;
+        const timestamp = (message.timestamp ?? 0) >>> 0;
+
+        // Type 0 starts a chunk stream, changes the message stream or
+        // moves the timestamp back, otherwise the timestamp is a delta
+        const previous = this.chunkStreams.get(chunkStreamId);
+        let fmt = FMT.Type0;
+        let timestampField = timestamp;
+        if (
+            previous && previous.messageStreamId == messageStreamId &&
+            timestamp >= previous.timestamp
+        ) {
+            timestampField = timestamp - previous.timestamp;
+            if (
+                previous.messageLength != payload.length ||
+                previous.messageTypeId != type
+            ) {
+                fmt = FMT.Type1;
+            } else if (previous.timestampDelta !== timestampField) {
+                fmt = FMT.Type2;
+            } else {
+                fmt = FMT.Type3;
+            }
+        }
+        this.chunkStreams.set(chunkStreamId, {
+            messageStreamId,
+            messageLength: payload.length,
+            messageTypeId: type,
+            timestamp,
+            timestampDelta: fmt == FMT.Type0 ? undefined : timestampField,
+        });
+
+        // Continuation chunks are Type 3, they repeat the extended
+        // timestamp if the first chunk carried one
+        const chunks: Uint8Array[] = [];
+        let offset = 0;
+        do {
+            chunks.push(encodeChunk({
+                fmt: offset == 0 ? fmt : FMT.Type3,
                 chunkStreamId,
-                timestamp: 0, // You might want to use a proper timestamp
-                messageLength: totalLength,
+                timestamp: timestampField,
+                messageLength: payload.length,
                 messageTypeId: type,
                 messageStreamId,
-                data: chunkData,
-            });
-        } else {
-            // Continuation chunk - use Type 3 format (no header)
-            await sendChunk(conn, {
-                fmt: FMT.Type3,
-                chunkStreamId,
-                data: chunkData,
-            });
-        }
+                data: payload.subarray(offset, offset + this.chunkSize),
+            }));
+            offset += this.chunkSize;
+        } while (offset < payload.length);
+        return concat(chunks);
     }
 }
 
 /**
- * Sends a single RTMP chunk over a TCP connection
+ * Encodes a single RTMP chunk, the timestamp is the absolute one for
+ * Type 0 and the delta otherwise
  */
-export async function sendChunk(
-    conn: Deno.TcpConn,
+function encodeChunk(
     chunk: {
         fmt: FMT;
         chunkStreamId: number;
@@ -64,7 +158,7 @@ export async function sendChunk(
         messageStreamId?: number;
         data: Uint8Array;
     },
-): Promise<void> {
+): Uint8Array {
     const { fmt, chunkStreamId, data } = chunk;
 
     // Create the basic header
@@ -86,6 +180,13 @@ export async function sendChunk(
         basicHeader[2] = ((chunkStreamId - 64) >> 8) & 0xFF;
     }
 
+    // Timestamps that don't fit in 3 bytes are written as 0xFFFFFF followed by
+    // a 4 byte extended timestamp
+    // https://rtmp.veriskope.com/docs/spec/#5313-extended-timestamp
+    const fullTimestamp = (chunk.timestamp || 0) >>> 0;
+    const hasExtendedTimestamp = fullTimestamp >= 0xFFFFFF;
+    const timestamp = hasExtendedTimestamp ? 0xFFFFFF : fullTimestamp;
+
     // Create the message header based on chunk format type
     let messageHeader: Uint8Array;
 
@@ -95,7 +196,6 @@ export async function sendChunk(
             messageHeader = new Uint8Array(11);
 
             // Timestamp (3 bytes)
-            const timestamp = chunk.timestamp || 0;
             messageHeader[0] = (timestamp >> 16) & 0xFF;
             messageHeader[1] = (timestamp >> 8) & 0xFF;
             messageHeader[2] = timestamp & 0xFF;
@@ -122,10 +222,9 @@ export async function sendChunk(
             messageHeader = new Uint8Array(7);
 
             // Timestamp delta (3 bytes)
-            const timestampDelta = chunk.timestamp || 0;
-            messageHeader[0] = (timestampDelta >> 16) & 0xFF;
-            messageHeader[1] = (timestampDelta >> 8) & 0xFF;
-            messageHeader[2] = timestampDelta & 0xFF;
+            messageHeader[0] = (timestamp >> 16) & 0xFF;
+            messageHeader[1] = (timestamp >> 8) & 0xFF;
+            messageHeader[2] = timestamp & 0xFF;
 
             // Message length (3 bytes)
             const msgLength = chunk.messageLength || data.length;
@@ -142,10 +241,9 @@ export async function sendChunk(
             messageHeader = new Uint8Array(3);
 
             // Timestamp delta (3 bytes)
-            const timeDelta = chunk.timestamp || 0;
-            messageHeader[0] = (timeDelta >> 16) & 0xFF;
-            messageHeader[1] = (timeDelta >> 8) & 0xFF;
-            messageHeader[2] = timeDelta & 0xFF;
+            messageHeader[0] = (timestamp >> 16) & 0xFF;
+            messageHeader[1] = (timestamp >> 8) & 0xFF;
+            messageHeader[2] = timestamp & 0xFF;
             break;
 
         case FMT.Type3:
@@ -157,15 +255,14 @@ export async function sendChunk(
             throw new Error(`Invalid chunk format type: ${fmt}`);
     }
 
-    // Combine everything and send
-    const buffer = new Uint8Array(
-        basicHeader.length + messageHeader.length + data.length,
-    );
-    buffer.set(basicHeader, 0);
-    buffer.set(messageHeader, basicHeader.length);
-    buffer.set(data, basicHeader.length + messageHeader.length);
+    // Extended timestamp (4 bytes), Type 3 chunks only have one if the
+    // chunk that started the message had one
+    const extendedTimestamp = new Uint8Array(hasExtendedTimestamp ? 4 : 0);
+    if (hasExtendedTimestamp) {
+        new DataView(extendedTimestamp.buffer).setUint32(0, fullTimestamp);
+    }
 
-    await conn.write(buffer);
+    return concat([basicHeader, messageHeader, extendedTimestamp, data]);
 }
 
 /**
@@ -179,21 +276,32 @@ export function createMessage(
 }
 
 /**
- * Sends a control message
+ * Sends a control message, on chunk stream 2 and message stream 0
  */
 export async function sendControlMessage(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     messageType: number,
     payload: Uint8Array,
-    chunkStreamId: number = 2,
-    messageStreamId: number = 0,
-    chunkSize: number = 128,
 ): Promise<void> {
-    await sendMessage(
-        conn,
-        { type: messageType, payload },
-        chunkStreamId,
-        messageStreamId,
-        chunkSize,
-    );
+    await writer.writeMessage({ type: messageType, payload }, 2, 0);
+}
+
+/**
+ * Audio, video and data get their own chunk streams, as OBS and ffmpeg do
+ */
+export function chunkStreamIdFor(type: number): number {
+    switch (type) {
+        case MessageType.AUDIO:
+            return 4;
+        case MessageType.VIDEO:
+            return 6;
+        default:
+            return 5;
+    }
+}
+
+async function writeAll(conn: Writer, bytes: Uint8Array) {
+    for (let offset = 0; offset < bytes.length;) {
+        offset += await conn.write(bytes.subarray(offset));
+    }
 }
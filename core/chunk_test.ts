@@ -0,0 +1,169 @@
+import { assertEquals } from "@std/assert";
+import { concat } from "@std/bytes/concat";
+import { ChunkWriter } from "./chunk.ts";
+import { messagesFromChunks, MessageType } from "./messages.ts";
+import { BufReader } from "./reader.ts";
+import { chunkStream, ChunkStreamState, FMT } from "./rtmp.ts";
+
+/**
+ * A ChunkWriter whose messages are kept apart, one write each
+ */
+function recordingWriter() {
+    const written: Uint8Array[] = [];
+    const writer = new ChunkWriter({
+        write(p: Uint8Array) {
+            written.push(p.slice());
+            return Promise.resolve(p.length);
+        },
+    });
+    const send = (
+        chunkStreamId: number,
+        type: number,
+        length: number,
+        timestamp: number,
+        messageStreamId = 1,
+    ) => writer.writeMessage(
+        { type, payload: new Uint8Array(length).fill(7), timestamp },
+        chunkStreamId,
+        messageStreamId,
+    );
+    return { writer, written, send };
+}
+
+function fmtOf(bytes: Uint8Array) {
+    return bytes[0] >> 6;
+}
+
+Deno.test("ChunkWriter picks the smallest header", async () => {
+    const { written, send } = recordingWriter();
+    await send(6, MessageType.VIDEO, 100, 0);
+    await send(6, MessageType.VIDEO, 100, 40); // new delta
+    await send(6, MessageType.VIDEO, 100, 80); // same delta
+    await send(6, MessageType.VIDEO, 50, 120); // new length
+    await send(6, MessageType.AUDIO, 50, 160); // new type
+    await send(6, MessageType.AUDIO, 50, 100); // timestamp moved back
+    await send(6, MessageType.AUDIO, 50, 140, 2); // other message stream
+    await send(4, MessageType.AUDIO, 50, 140); // other chunk stream
+    assertEquals(written.map(fmtOf), [
+        FMT.Type0,
+        FMT.Type2,
+        FMT.Type3,
+        FMT.Type1,
+        FMT.Type1,
+        FMT.Type0,
+        FMT.Type0,
+        FMT.Type0,
+    ]);
+
+    // 1 byte basic header and 3 bytes of timestamp delta, 40
+    assertEquals(Array.from(written[1].subarray(0, 4)), [
+        (FMT.Type2 << 6) | 6,
+        0,
+        0,
+        40,
+    ]);
+    // only the basic header
+    assertEquals(written[2].length, 1 + 100);
+});
+
+Deno.test("ChunkWriter splits messages into Type 3 continuations", async () => {
+    const { writer, written, send } = recordingWriter();
+    await send(6, MessageType.VIDEO, 300, 0);
+    // 128 + 128 + 44 bytes, continuations only have a basic header
+    assertEquals(written[0].length, 1 + 11 + 128 + 1 + 128 + 1 + 44);
+    assertEquals(written[0][1 + 11 + 128], (FMT.Type3 << 6) | 6);
+    assertEquals(written[0][1 + 11 + 128 + 1 + 128], (FMT.Type3 << 6) | 6);
+
+    await writer.setChunkSize(4096);
+    await send(6, MessageType.VIDEO, 300, 40);
+    assertEquals(written[2].length, 1 + 3 + 300);
+});
+
+Deno.test("ChunkWriter encodes 2 and 3 byte basic headers", async () => {
+    const { written, send } = recordingWriter();
+    await send(64 + 10, MessageType.VIDEO, 1, 0);
+    await send(320 + 1, MessageType.VIDEO, 1, 0);
+    assertEquals(Array.from(written[0].subarray(0, 2)), [0, 10]);
+    assertEquals(Array.from(written[1].subarray(0, 3)), [1, 1, 1]);
+});
+
+Deno.test("ChunkWriter writes extended timestamps, also on Type 3 continuations", async () => {
+    const { written, send } = recordingWriter();
+    const timestamp = 0x01234567;
+    await send(6, MessageType.VIDEO, 200, timestamp);
+    const chunk = written[0];
+    // the 3 byte field is 0xFFFFFF, the timestamp follows the header
+    assertEquals(Array.from(chunk.subarray(1, 4)), [0xff, 0xff, 0xff]);
+    assertEquals(Array.from(chunk.subarray(12, 16)), [0x01, 0x23, 0x45, 0x67]);
+    // the continuation repeats it after its basic header
+    const continuation = 1 + 11 + 4 + 128;
+    assertEquals(chunk[continuation], (FMT.Type3 << 6) | 6);
+    assertEquals(
+        Array.from(chunk.subarray(continuation + 1, continuation + 5)),
+        [0x01, 0x23, 0x45, 0x67],
+    );
+    assertEquals(chunk.length, continuation + 1 + 4 + 72);
+
+    // deltas past 0xFFFFFF are extended too
+    await send(6, MessageType.VIDEO, 200, timestamp + 0x01000000);
+    assertEquals(fmtOf(written[1]), FMT.Type2);
+    assertEquals(Array.from(written[1].subarray(1, 8)), [
+        0xff,
+        0xff,
+        0xff,
+        0x01,
+        0x00,
+        0x00,
+        0x00,
+    ]);
+});
+
+Deno.test("ChunkWriter output reads back as the messages written", async () => {
+    const { writer, written, send } = recordingWriter();
+    const sent: [number, number, number][] = [];
+    const messages: [number, number, number, number][] = [
+        [6, MessageType.VIDEO, 300, 0],
+        [6, MessageType.VIDEO, 300, 40],
+        [6, MessageType.VIDEO, 300, 80],
+        [6, MessageType.VIDEO, 500, 120],
+        [4, MessageType.AUDIO, 10, 0],
+        [4, MessageType.AUDIO, 10, 23],
+        [6, MessageType.VIDEO, 5000, 0x1000000],
+        [6, MessageType.VIDEO, 5000, 0x2000000],
+        [6, MessageType.VIDEO, 5000, 0x3000000],
+        [6, MessageType.VIDEO, 10, 100],
+    ];
+    for (const [chunkStreamId, type, length, timestamp] of messages) {
+        await send(chunkStreamId, type, length, timestamp);
+        sent.push([type, length, timestamp]);
+    }
+
+    const bytes = concat(written);
+    let position = 0;
+    const reader = new BufReader({
+        read(p: Uint8Array) {
+            if (position >= bytes.length) {
+                return Promise.resolve(null);
+            }
+            const n = Math.min(p.length, bytes.length - position);
+            p.set(bytes.subarray(position, position + n));
+            position += n;
+            return Promise.resolve(n);
+        },
+    });
+
+    const received: [number, number, number][] = [];
+    const chunks = chunkStream(
+        reader,
+        { value: writer.chunkSize },
+        new Map<number, ChunkStreamState>(),
+    );
+    for await (const message of messagesFromChunks(chunks)) {
+        received.push([
+            message.header.type,
+            message.payload.length,
+            message.header.timestamp,
+        ]);
+    }
+    assertEquals(received, sent);
+});
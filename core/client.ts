@@ -0,0 +1,612 @@
+import { concat } from "@std/bytes/concat";
+import {
+    AMF0Value,
+    ECMAArray,
+    encodeAMF0Command,
+    encodeAMF0Value,
+    parseAMF0Command,
+} from "./amf.ts";
+import { chunkStreamIdFor, ChunkWriter } from "./chunk.ts";
+import {
+    Message,
+    messagesFromChunks,
+    MessageType,
+    parseCommandMessage,
+    sendAcknowledgement,
+    sendWindowAcknowledgementSize,
+} from "./messages.ts";
+import { FlowControl, MeteredConn } from "./flow.ts";
+import { AUDIO_FOURCCS, VIDEO_FOURCCS } from "./media.ts";
+import { BufReader } from "./reader.ts";
+import { chunkStream, ChunkStreamState } from "./rtmp.ts";
+
+const OUTBOUND_CHUNK_SIZE = 4096;
+const COMMAND_TIMEOUT_MS = 10000;
+const CONNECT_TIMEOUT_MS = 10000;
+
+type Command = ReturnType<typeof parseAMF0Command>;
+
+/**
+ * An RTMP client that publishes to a remote server
+ *
+ * Usage:
+ *   const client = new RtmpClient("rtmp://a.rtmp.youtube.com/live2/key");
+ *   await client.connect();
+ *   await client.publish();
+ *   await client.writeVideo(timestamp, payload);
+ */
+export class RtmpClient {
+    readonly target: RtmpUrl;
+    private conn: MeteredConn | undefined;
+    private flow: FlowControl | undefined;
+    private writer: ChunkWriter | undefined;
+    private reader: BufReader | undefined;
+    private chunkSizeRef = { value: 128 };
+    private chunkStreamStates = new Map<number, ChunkStreamState>();
+    private transactionId = 0;
+    // resolved with an Error when the connection ends first
+    private pendingTransactions = new Map<
+        number,
+        (command: Command | Error) => void
+    >();
+    private statusWaiter: ((command: Command | Error) => void) | undefined;
+    private readLoop: Promise<Error | undefined> = Promise.resolve(undefined);
+    private streamId = 0;
+    private closed = false;
+
+    /**
+     * @param url rtmp://host[:port]/app/streamName
+     */
+    constructor(readonly url: string) {
+        const target = parseRtmpUrl(url);
+        if (target instanceof Error) {
+            throw target;
+        }
+        this.target = target;
+    }
+
+    /**
+     * Performs the handshake and the "connect" command
+     */
+    async connect(): Promise<Error | undefined> {
+        console.log(
+            `[CLIENT] Connecting to ${this.target.hostname}:${this.target.port}, app: ${this.target.app}`,
+        );
+        try {
+            this.conn = new MeteredConn(
+                await connectTcp(
+                    this.target.hostname,
+                    this.target.port,
+                    CONNECT_TIMEOUT_MS,
+                ),
+            );
+            this.flow = new FlowControl(this.conn);
+            this.reader = new BufReader(this.conn);
+            this.writer = new ChunkWriter(this.conn);
+            this.reader.timeoutMs = COMMAND_TIMEOUT_MS;
+            await handshake(this.conn, this.reader);
+            this.reader.timeoutMs = undefined;
+        } catch (e) {
+            this.close();
+            return e as Error;
+        }
+        console.log(`[CLIENT] Handshake done with ${this.target.hostname}`);
+
+        this.readLoop = this.read(this.reader);
+
+        // Announce our chunk size before using it
+        try {
+            await this.writer.setChunkSize(OUTBOUND_CHUNK_SIZE);
+        } catch (e) {
+            this.close();
+            return e as Error;
+        }
+
+        const result = await this.call("connect", {
+            app: this.target.app,
+            type: "nonprivate",
+            flashVer: "FMLE/3.0 (compatible; streamany)",
+            tcUrl: this.target.tcUrl,
+            // enhanced RTMP, so HEVC, AV1 and Opus are accepted
+            fourCcList: [...VIDEO_FOURCCS, ...AUDIO_FOURCCS],
+        });
+        if (result instanceof Error) {
+            this.close();
+            return result;
+        }
+        console.log(`[CLIENT] Connected to ${this.target.tcUrl}`);
+    }
+
+    /**
+     * Sends "releaseStream", "FCPublish", "createStream" and "publish",
+     * resolves once the server replies with NetStream.Publish.Start
+     */
+    async publish(): Promise<Error | undefined> {
+        const { streamName } = this.target;
+
+        // Servers are not required to answer these two
+        const err = await this.sendCommand(
+            "releaseStream",
+            ++this.transactionId,
+            null,
+            0,
+            [streamName],
+        ) ?? await this.sendCommand(
+            "FCPublish",
+            ++this.transactionId,
+            null,
+            0,
+            [streamName],
+        );
+        if (err) {
+            return err;
+        }
+
+        const result = await this.call("createStream", null);
+        if (result instanceof Error) {
+            return result;
+        }
+        this.streamId = result.additionalParams[0] as number;
+        console.log(`[CLIENT] Created stream ${this.streamId}`);
+
+        const status = this.waitForStatus();
+        const sent = await this.sendCommand("publish", 0, null, this.streamId, [
+            streamName,
+            "live",
+        ]);
+        if (sent) {
+            return sent;
+        }
+        const info = await status;
+        if (info instanceof Error) {
+            return info;
+        }
+        if (info.code != "NetStream.Publish.Start") {
+            return new Error(
+                `publish rejected: ${info.code} ${info.description ?? ""}`,
+            );
+        }
+        console.log(`[CLIENT] Publishing ${streamName} to ${this.url}`);
+    }
+
+    writeAudio(timestamp: number, payload: Uint8Array): Promise<void> {
+        return this.writeMessage({
+            header: {
+                type: MessageType.AUDIO,
+                payload_length: payload.length,
+                timestamp,
+                message_stream_id: this.streamId,
+            },
+            payload,
+        });
+    }
+
+    writeVideo(timestamp: number, payload: Uint8Array): Promise<void> {
+        return this.writeMessage({
+            header: {
+                type: MessageType.VIDEO,
+                payload_length: payload.length,
+                timestamp,
+                message_stream_id: this.streamId,
+            },
+            payload,
+        });
+    }
+
+    /**
+     * Sends @setDataFrame onMetaData
+     */
+    writeMetadata(metadata: Record<string, AMF0Value>): Promise<void> {
+        const parts = [
+            encodeAMF0Value("@setDataFrame"),
+            encodeAMF0Value("onMetaData"),
+            // platforms expect onMetaData as an ECMA array, as ffmpeg sends it
+            encodeAMF0Value(new ECMAArray(metadata)),
+        ];
+        const payload = concat(parts);
+        return this.writeMessage({
+            header: {
+                type: MessageType.DATA_AMF0,
+                payload_length: payload.length,
+                timestamp: 0,
+                message_stream_id: this.streamId,
+            },
+            payload,
+        });
+    }
+
+    /**
+     * Writes an audio, video or data message on the published stream
+     */
+    async writeMessage(message: Message): Promise<void> {
+        // stay within the bandwidth the server allows
+        await this.flow?.waitForWindow();
+        return this.write(
+            {
+                type: message.header.type,
+                payload: message.payload,
+                timestamp: message.header.timestamp,
+            },
+            chunkStreamIdFor(message.header.type),
+            this.streamId,
+        );
+    }
+
+    /**
+     * The bytes written to the server so far
+     */
+    get bytesOut(): number {
+        return this.conn?.bytesOut ?? 0;
+    }
+
+    /**
+     * Resolves when the connection ends, with the error that ended it if any
+     */
+    wait(): Promise<Error | undefined> {
+        return this.readLoop;
+    }
+
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        try {
+            this.conn?.close();
+        } catch {
+            // already closed
+        }
+        console.log(`[CLIENT] Closed connection to ${this.url}`);
+    }
+
+    /**
+     * Sends a command and waits for its _result or _error
+     */
+    private async call(
+        commandName: string,
+        commandObject: Record<string, AMF0Value> | null,
+    ): Promise<Command | Error> {
+        const transactionId = ++this.transactionId;
+        const reply = new Promise<Command | Error>((resolve) => {
+            const timer = setTimeout(() => {
+                this.pendingTransactions.delete(transactionId);
+                resolve(new Error(`${commandName} timed out`));
+            }, COMMAND_TIMEOUT_MS);
+            this.pendingTransactions.set(transactionId, (command) => {
+                clearTimeout(timer);
+                resolve(command);
+            });
+        });
+        const err = await this.sendCommand(
+            commandName,
+            transactionId,
+            commandObject,
+            0,
+        );
+        if (err) {
+            this.pendingTransactions.get(transactionId)?.(err);
+            this.pendingTransactions.delete(transactionId);
+        }
+
+        const command = await reply;
+        if (command instanceof Error) {
+            return command;
+        }
+        if (command.commandName == "_error") {
+            const info = command.additionalParams[0] as
+                | Record<string, AMF0Value>
+                | undefined;
+            return new Error(
+                `${commandName} failed: ${info?.code} ${
+                    info?.description ?? ""
+                }`,
+            );
+        }
+        return command;
+    }
+
+    private waitForStatus(): Promise<Record<string, AMF0Value> | Error> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.statusWaiter = undefined;
+                resolve(new Error("onStatus timed out"));
+            }, COMMAND_TIMEOUT_MS);
+            this.statusWaiter = (command) => {
+                clearTimeout(timer);
+                resolve(
+                    command instanceof Error
+                        ? command
+                        : (command.additionalParams[0] ?? {}) as Record<
+                            string,
+                            AMF0Value
+                        >,
+                );
+            };
+        });
+    }
+
+    /**
+     * An Error when the connection is closed or the write fails
+     */
+    private async sendCommand(
+        commandName: string,
+        transactionId: number,
+        commandObject: Record<string, AMF0Value> | null,
+        messageStreamId: number,
+        additionalParams: AMF0Value[] = [],
+    ): Promise<Error | undefined> {
+        const payload = encodeAMF0Command(
+            commandName,
+            transactionId,
+            commandObject,
+            ...additionalParams,
+        );
+        try {
+            await this.write(
+                { type: MessageType.COMMAND_AMF0, payload },
+                3,
+                messageStreamId,
+            );
+        } catch (e) {
+            return e as Error;
+        }
+    }
+
+    private write(
+        message: { type: number; payload: Uint8Array; timestamp?: number },
+        chunkStreamId: number,
+        messageStreamId: number,
+    ): Promise<void> {
+        if (!this.writer || this.closed) {
+            return Promise.reject(new Error(`${this.url} is not connected`));
+        }
+        return this.writer.writeMessage(
+            message,
+            chunkStreamId,
+            messageStreamId,
+        );
+    }
+
+    private async read(reader: BufReader): Promise<Error | undefined> {
+        const chunks = chunkStream(
+            reader,
+            this.chunkSizeRef,
+            this.chunkStreamStates,
+        );
+        try {
+            for await (const message of messagesFromChunks(chunks)) {
+                this.handleMessage(message);
+
+                const sequenceNumber = this.flow?.acknowledgementDue();
+                if (sequenceNumber !== undefined && this.writer) {
+                    await sendAcknowledgement(this.writer, sequenceNumber);
+                }
+            }
+        } catch (e) {
+            return e as Error;
+        } finally {
+            this.close();
+            // nothing will answer the commands still waiting
+            const closed = new Error(
+                `${this.target.tcUrl} closed the connection`,
+            );
+            for (const resolve of this.pendingTransactions.values()) {
+                resolve(closed);
+            }
+            this.pendingTransactions.clear();
+            this.statusWaiter?.(closed);
+            this.statusWaiter = undefined;
+        }
+    }
+
+    private handleMessage(message: Message) {
+        switch (message.header.type) {
+            case MessageType.SET_CHUNK_SIZE: {
+                const chunkSize = new DataView(
+                    message.payload.buffer,
+                    message.payload.byteOffset,
+                ).getUint32(0);
+                console.log(`[CLIENT] Server chunk size: ${chunkSize}`);
+                this.chunkSizeRef.value = chunkSize;
+                break;
+            }
+
+            case MessageType.ACKNOWLEDGEMENT: {
+                if (message.payload.length < 4) {
+                    break;
+                }
+                this.flow?.onAcknowledgement(
+                    new DataView(
+                        message.payload.buffer,
+                        message.payload.byteOffset,
+                    ).getUint32(0),
+                );
+                break;
+            }
+
+            case MessageType.WINDOW_ACKNOWLEDGEMENT_SIZE: {
+                if (message.payload.length < 4 || !this.flow) {
+                    break;
+                }
+                const windowSize = new DataView(
+                    message.payload.buffer,
+                    message.payload.byteOffset,
+                ).getUint32(0);
+                console.log(`[CLIENT] Server window size: ${windowSize}`);
+                // acknowledge at the window the server asked for
+                if (windowSize > 0) {
+                    this.flow.ackWindow = windowSize;
+                }
+                break;
+            }
+
+            case MessageType.SET_PEER_BANDWIDTH: {
+                if (message.payload.length < 5 || !this.flow || !this.writer) {
+                    break;
+                }
+                const windowSize = new DataView(
+                    message.payload.buffer,
+                    message.payload.byteOffset,
+                ).getUint32(0);
+                console.log(
+                    `[CLIENT] Peer bandwidth: ${windowSize}, type ${
+                        message.payload[4]
+                    }`,
+                );
+                const announce = this.flow.setPeerBandwidth(
+                    windowSize,
+                    message.payload[4],
+                );
+                if (announce !== undefined) {
+                    sendWindowAcknowledgementSize(this.writer, announce)
+                        .catch(() => {});
+                }
+                break;
+            }
+
+            case MessageType.USER_CONTROL: {
+                const eventType = (message.payload[0] << 8) |
+                    message.payload[1];
+                if (eventType == 6) {
+                    // Ping Request, echo the timestamp in a Ping Response
+                    const payload = new Uint8Array(message.payload);
+                    payload[1] = 7;
+                    this.write(
+                        { type: MessageType.USER_CONTROL, payload },
+                        2,
+                        0,
+                    ).catch(() => {});
+                }
+                break;
+            }
+
+            case MessageType.COMMAND_AMF0:
+            case MessageType.COMMAND_AMF3: {
+                const command = parseCommandMessage(message);
+                console.log(
+                    `[CLIENT] Command: ${command.commandName}, TransactionID: ${command.transactionId}`,
+                );
+                if (
+                    command.commandName == "_result" ||
+                    command.commandName == "_error"
+                ) {
+                    const resolve = this.pendingTransactions.get(
+                        command.transactionId,
+                    );
+                    this.pendingTransactions.delete(command.transactionId);
+                    resolve?.(command);
+                } else if (command.commandName == "onStatus") {
+                    const resolve = this.statusWaiter;
+                    this.statusWaiter = undefined;
+                    resolve?.(command);
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Client side of https://rtmp.veriskope.com/docs/spec/#52-handshake
+ */
+async function handshake(conn: MeteredConn, reader: BufReader) {
+    // send c0, c1
+    const c0c1 = new Uint8Array(1 + 1536);
+    c0c1[0] = 3;
+    crypto.getRandomValues(c0c1.subarray(9));
+    await conn.write(c0c1);
+
+    // read s0, s1, s2
+    const s0s1s2 = await reader.readExact(1 + 1536 + 1536);
+    if (s0s1s2 == null) {
+        throw new Error("connection closed during handshake");
+    }
+    if (s0s1s2[0] != 3) {
+        throw new Error(`unsupported RTMP version: ${s0s1s2[0]}`);
+    }
+
+    // send c2, echoing s1
+    await conn.write(s0s1s2.slice(1, 1 + 1536));
+}
+
+/**
+ * Deno.connect, given up after timeoutMs
+ */
+async function connectTcp(
+    hostname: string,
+    port: number,
+    timeoutMs: number,
+): Promise<Deno.TcpConn> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const connecting = Deno.connect({ hostname, port });
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            // a connection established too late is not used
+            connecting.then((conn) => conn.close(), () => {});
+            reject(new Error(`connecting to ${hostname}:${port} timed out`));
+        }, timeoutMs);
+    });
+    try {
+        return await Promise.race([connecting, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+export type RtmpUrl = {
+    hostname: string;
+    port: number;
+    app: string;
+    streamName: string;
+    tcUrl: string;
+};
+
+/**
+ * Splits rtmp://host[:port]/app/streamName into its parts, a query
+ * before the stream name stays with the app as in
+ * rtmp://host/app?token=x/streamName
+ */
+export function parseRtmpUrl(url: string): RtmpUrl | Error {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch (e) {
+        return e as Error;
+    }
+    if (parsed.protocol != "rtmp:") {
+        return new Error(`not an rtmp url: ${url}`);
+    }
+
+    // The query is split off first, it may carry slashes
+    const path = parsed.pathname.replace(/^\/+/, "");
+    const slash = path.indexOf("/");
+    let app: string, streamName: string;
+    if (slash != -1) {
+        // rtmp://host/app/stream?key=x
+        app = path.slice(0, slash);
+        streamName = path.slice(slash + 1).replace(/^\/+/, "") +
+            parsed.search;
+    } else {
+        // rtmp://host/app?token=x/stream, the query belongs to the app
+        const querySlash = parsed.search.indexOf("/");
+        app = path +
+            (querySlash == -1
+                ? parsed.search
+                : parsed.search.slice(0, querySlash));
+        streamName = querySlash == -1
+            ? ""
+            : parsed.search.slice(querySlash + 1);
+    }
+    if (app == "" || streamName == "") {
+        return new Error(`rtmp url has no app or stream name: ${url}`);
+    }
+
+    const port = parsed.port ? parseInt(parsed.port) : 1935;
+    return {
+        hostname: parsed.hostname,
+        port,
+        app,
+        streamName,
+        tcUrl: `rtmp://${parsed.host}/${app}`,
+    };
+}
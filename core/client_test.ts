@@ -0,0 +1,224 @@
+import { assert, assertEquals } from "@std/assert";
+import { RtmpClient } from "./client.ts";
+import { Message, MessageType } from "./messages.ts";
+import { PushSession } from "./push.ts";
+import { RtmpServer } from "./server.ts";
+import { RtmpHandlers } from "./session.ts";
+
+// what ffmpeg sends for a 160x120 H.264 and mono AAC stream
+const AVC_SEQUENCE_HEADER = hex(
+    "17000000000164000bffe100196764000bacd942847e5c0440000003004000000c83c50a658001000668ebe3cb22c0",
+);
+const AAC_SEQUENCE_HEADER = hex("af00120856e500");
+
+function hex(text: string) {
+    return new Uint8Array(text.match(/../g)!.map((h) => parseInt(h, 16)));
+}
+
+// a keyframe larger than a chunk, so that it is split
+function keyframe(length: number) {
+    const payload = new Uint8Array(length).map((_, i) => i & 0xff);
+    payload.set([0x17, 1, 0, 0, 0]);
+    return payload;
+}
+
+/**
+ * An RtmpServer on a free port, keeping what is published to it
+ */
+function loopback(handlers: RtmpHandlers = {}) {
+    const received: Message[] = [];
+    const server = new RtmpServer({
+        hostname: "127.0.0.1",
+        port: 0,
+        handlers: {
+            ...handlers,
+            onMediaMessage(session, message) {
+                received.push(message);
+                handlers.onMediaMessage?.(session, message);
+            },
+        },
+    });
+    const err = server.listen();
+    if (err) {
+        throw err;
+    }
+    const serving = server.serve();
+    return {
+        server,
+        received,
+        url: (path: string) => `rtmp://127.0.0.1:${server.addr!.port}/${path}`,
+        async shutdown() {
+            server.close();
+            await serving;
+        },
+    };
+}
+
+async function until(condition: () => boolean, timeoutMs = 5000) {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error("timed out waiting for the server");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+Deno.test("RtmpClient publishes to RtmpServer", async () => {
+    const published: string[] = [];
+    const rtmp = loopback({
+        onPublish: (_, stream) => published.push(stream.name),
+    });
+    const client = new RtmpClient(rtmp.url("live/test"));
+    assertEquals(await client.connect(), undefined);
+    assertEquals(await client.publish(), undefined);
+    assertEquals(published, ["live/test"]);
+
+    await client.writeMetadata({ width: 160, height: 120 });
+    await client.writeVideo(0, AVC_SEQUENCE_HEADER);
+    await client.writeAudio(0, AAC_SEQUENCE_HEADER);
+    const frame = keyframe(10000);
+    await client.writeVideo(0x1000000, frame);
+    await until(() => rtmp.received.length == 4);
+
+    assertEquals(
+        rtmp.received.map((m) => [m.header.type, m.header.timestamp]),
+        [
+            [MessageType.DATA_AMF0, 0],
+            [MessageType.VIDEO, 0],
+            [MessageType.AUDIO, 0],
+            [MessageType.VIDEO, 0x1000000],
+        ],
+    );
+    assertEquals(rtmp.received[1].payload, AVC_SEQUENCE_HEADER);
+    assertEquals(rtmp.received[3].payload, frame);
+    const [session] = rtmp.server.sessions;
+    assertEquals(session.videoConfig?.codec, "avc1.64000b");
+
+    client.close();
+    await client.wait();
+    await until(() => rtmp.server.sessions.size == 0);
+    await rtmp.shutdown();
+});
+
+Deno.test("RtmpClient returns the server's rejection as an Error", async () => {
+    const rtmp = loopback();
+    const first = new RtmpClient(rtmp.url("live/test"));
+    assertEquals(await first.connect() ?? await first.publish(), undefined);
+
+    // the stream is taken
+    const second = new RtmpClient(rtmp.url("live/test"));
+    assertEquals(await second.connect(), undefined);
+    const err = await second.publish();
+    assert(err instanceof Error);
+    assert(err.message.includes("NetStream.Publish.BadName"));
+
+    second.close();
+    first.close();
+    await Promise.all([first.wait(), second.wait()]);
+    await rtmp.shutdown();
+
+    // nothing listens anymore
+    const late = new RtmpClient(rtmp.url("live/test"));
+    assert(await late.connect() instanceof Error);
+});
+
+Deno.test("RtmpServer outlives a close handler that throws", async () => {
+    const rtmp = loopback({
+        onUnpublish() {
+            throw new Error("embedder bug");
+        },
+        onClose() {
+            throw new Error("embedder bug");
+        },
+    });
+    for (let i = 0; i < 2; i++) {
+        const client = new RtmpClient(rtmp.url("live/test"));
+        assertEquals(
+            await client.connect() ?? await client.publish(),
+            undefined,
+        );
+        client.close();
+        await client.wait();
+        await until(() => rtmp.server.sessions.size == 0);
+    }
+    assertEquals(rtmp.server.streams.get("live/test")?.publisher, undefined);
+    await rtmp.shutdown();
+});
+
+Deno.test("PushSession publishes the queued messages once accepted", async () => {
+    const rtmp = loopback();
+    const push = new PushSession(rtmp.url("live/pushed"));
+    const message = (type: number, payload: Uint8Array): Message => ({
+        header: {
+            type,
+            payload_length: payload.length,
+            timestamp: 0,
+            message_stream_id: 1,
+        },
+        payload,
+    });
+    // written before the remote server accepted the publish
+    push.write(message(MessageType.VIDEO, AVC_SEQUENCE_HEADER));
+    push.write(message(MessageType.VIDEO, keyframe(5000)));
+    assertEquals(await push.start(), undefined);
+    push.write(message(MessageType.AUDIO, AAC_SEQUENCE_HEADER));
+    await until(() => rtmp.received.length == 3);
+    assert(push.bytesOut > 5000);
+
+    // the remote server going away closes the session
+    await rtmp.shutdown();
+    await push.wait();
+
+    // and a server that is not there is an Error, not a rejection
+    const failed = new PushSession(rtmp.url("live/pushed"));
+    assert(await failed.start() instanceof Error);
+});
+
+Deno.test("PushSession skips to the next keyframe when its queue overflows", async () => {
+    const rtmp = loopback();
+    const push = new PushSession(rtmp.url("live/pushed"));
+    const message = (type: number, timestamp: number, payload: number[]) => ({
+        header: {
+            type,
+            payload_length: payload.length,
+            timestamp,
+            message_stream_id: 1,
+        },
+        payload: new Uint8Array(payload),
+    });
+    const metadata = message(MessageType.DATA_AMF0, 0, [0x05]);
+    const video = (timestamp: number, first: number) =>
+        message(MessageType.VIDEO, timestamp, [first, 1, 0, 0, 0, 9]);
+
+    // not started, the destination takes nothing
+    push.write(metadata);
+    push.write(message(MessageType.VIDEO, 0, Array.from(AVC_SEQUENCE_HEADER)));
+    push.write(message(MessageType.AUDIO, 0, Array.from(AAC_SEQUENCE_HEADER)));
+    push.write(video(0, 0x17));
+    for (let t = 1; t <= 1020; t++) {
+        push.write(video(t, 0x27));
+    }
+    // overflows, the inter frames and the audio before a keyframe go
+    push.write(video(2000, 0x27));
+    push.write(message(MessageType.AUDIO, 2001, [0xaf, 1, 7]));
+    push.write(video(3000, 0x17));
+    push.write(video(3001, 0x27));
+
+    assertEquals(await push.start(), undefined);
+    await until(() => rtmp.received.length == 5);
+    assertEquals(
+        rtmp.received.map((m) => [m.header.type, m.header.timestamp]),
+        [
+            [MessageType.DATA_AMF0, 0],
+            [MessageType.VIDEO, 0],
+            [MessageType.AUDIO, 0],
+            [MessageType.VIDEO, 3000],
+            [MessageType.VIDEO, 3001],
+        ],
+    );
+    assertEquals(rtmp.received[1].payload, AVC_SEQUENCE_HEADER);
+
+    push.close();
+    await rtmp.shutdown();
+});
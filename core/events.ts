@@ -0,0 +1,108 @@
+import { AMF0Value } from "./amf.ts";
+import { Message } from "./messages.ts";
+import { StreamMetadata } from "./metadata.ts";
+import { RtmpSession } from "./session.ts";
+import { LiveStream } from "./streams.ts";
+
+/**
+ * Returned by connect, publish and play listeners, an Error rejects the
+ * request with its message and disconnects the client
+ */
+export type Veto = Error | undefined;
+
+/**
+ * The events of the sessions of an RtmpServer, like the IServerObserver
+ * callbacks lal gives the Go relay
+ */
+export type RtmpEventMap = {
+    // before the connect command is answered, session.app is set
+    connect: (
+        session: RtmpSession,
+        commandObject: Record<string, AMF0Value>,
+    ) => Veto | Promise<Veto>;
+    // before the stream name is taken
+    publish: (session: RtmpSession, streamName: string) => Veto | Promise<Veto>;
+    unpublish: (session: RtmpSession, stream: LiveStream) => void;
+    // before the player subscribes
+    play: (session: RtmpSession, streamName: string) => Veto | Promise<Veto>;
+    // a player left the stream
+    stop: (session: RtmpSession, stream: LiveStream) => void;
+    // the publisher's onMetaData
+    metadata: (session: RtmpSession, metadata: StreamMetadata) => void;
+    audio: (session: RtmpSession, message: Message) => void;
+    video: (session: RtmpSession, message: Message) => void;
+    close: (session: RtmpSession) => void;
+    // the session ended on an error, after its close
+    error: (session: RtmpSession, error: Error) => void;
+};
+
+export type RtmpEvent = keyof RtmpEventMap;
+type VetoEvent = "connect" | "publish" | "play";
+
+/**
+ * Listeners of the RtmpEventMap events
+ *
+ * Usage:
+ *   server.events.on("publish", (session, streamName) => {
+ *       if (!streamName.startsWith("cam")) {
+ *           return new Error("unknown camera");
+ *       }
+ *   });
+ *   server.events.on("close", (session) => console.log(session.id));
+ */
+export class RtmpEvents {
+    private readonly listeners: {
+        [E in RtmpEvent]?: Set<RtmpEventMap[E]>;
+    } = {};
+
+    on<E extends RtmpEvent>(event: E, listener: RtmpEventMap[E]): void {
+        const listeners = this.listeners[event] ?? new Set();
+        listeners.add(listener);
+        this.listeners[event] = listeners as RtmpEvents["listeners"][E];
+    }
+
+    off<E extends RtmpEvent>(event: E, listener: RtmpEventMap[E]): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    /**
+     * Calls the listeners, one that throws does not stop the others
+     */
+    emit<E extends Exclude<RtmpEvent, VetoEvent>>(
+        event: E,
+        ...args: Parameters<RtmpEventMap[E]>
+    ): void {
+        for (const listener of this.listeners[event] ?? []) {
+            try {
+                (listener as (...args: Parameters<RtmpEventMap[E]>) => void)(
+                    ...args,
+                );
+            } catch (e) {
+                console.error(`[EVENTS] ${event} listener failed:`, e);
+            }
+        }
+    }
+
+    /**
+     * Calls the listeners in the order they were added until one vetoes,
+     * a listener that throws vetoes with its error
+     */
+    async ask<E extends VetoEvent>(
+        event: E,
+        ...args: Parameters<RtmpEventMap[E]>
+    ): Promise<Veto> {
+        for (const listener of this.listeners[event] ?? []) {
+            try {
+                const veto = await (listener as (
+                    ...args: Parameters<RtmpEventMap[E]>
+                ) => Veto | Promise<Veto>)(...args);
+                if (veto) {
+                    return veto;
+                }
+            } catch (e) {
+                console.error(`[EVENTS] ${event} listener failed:`, e);
+                return e instanceof Error ? e : new Error(String(e));
+            }
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import { assert, assertEquals } from "@std/assert";
+import { RtmpEvents } from "./events.ts";
+import { RtmpSession } from "./session.ts";
+
+// the listeners below only pass it along
+const session = {} as RtmpSession;
+
+Deno.test("RtmpEvents.ask lets the first veto win", async () => {
+    const events = new RtmpEvents();
+    const called: string[] = [];
+    events.on("publish", (_, streamName) => {
+        called.push(`first ${streamName}`);
+    });
+    events.on("publish", async () => {
+        called.push("second");
+        await Promise.resolve();
+        return new Error("no");
+    });
+    events.on("publish", () => {
+        called.push("third");
+        return new Error("never asked");
+    });
+
+    const veto = await events.ask("publish", session, "cam");
+    assert(veto instanceof Error);
+    assertEquals(veto.message, "no");
+    assertEquals(called, ["first cam", "second"]);
+});
+
+Deno.test("RtmpEvents.ask accepts without listeners or vetoes", async () => {
+    const events = new RtmpEvents();
+    assertEquals(await events.ask("play", session, "cam"), undefined);
+    events.on("play", () => undefined);
+    assertEquals(await events.ask("play", session, "cam"), undefined);
+});
+
+Deno.test("RtmpEvents.ask takes a throwing listener as a veto", async () => {
+    const events = new RtmpEvents();
+    events.on("connect", () => {
+        throw new Error("broken");
+    });
+    const veto = await events.ask("connect", session, {});
+    assertEquals(veto?.message, "broken");
+
+    const rejects = new RtmpEvents();
+    rejects.on("connect", () => Promise.reject("not an Error"));
+    const wrapped = await rejects.ask("connect", session, {});
+    assert(wrapped instanceof Error);
+    assertEquals(wrapped.message, "not an Error");
+});
+
+Deno.test("RtmpEvents.emit calls every listener even if one throws", () => {
+    const events = new RtmpEvents();
+    const closed: string[] = [];
+    events.on("close", () => closed.push("first"));
+    events.on("close", () => {
+        throw new Error("broken");
+    });
+    events.on("close", () => closed.push("third"));
+    events.emit("close", session);
+    assertEquals(closed, ["first", "third"]);
+});
+
+Deno.test("RtmpEvents.off removes a listener", () => {
+    const events = new RtmpEvents();
+    let calls = 0;
+    const listener = () => {
+        calls++;
+    };
+    events.on("close", listener);
+    events.emit("close", session);
+    events.off("close", listener);
+    events.emit("close", session);
+    assertEquals(calls, 1);
+});
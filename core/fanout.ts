@@ -0,0 +1,154 @@
+import { Message } from "./messages.ts";
+import { PushSession } from "./push.ts";
+import { MediaStats } from "./stats.ts";
+import { LiveStream } from "./streams.ts";
+
+// a destination that dropped is retried after 1s, 2s, 4s ... up to 30s
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export type FanOutHandlers = {
+    // the destination accepted the publish
+    onDestinationUp?: (destUrl: string) => void;
+    // a destination that was up closed, it is reconnected unless stopped
+    onDestinationDown?: (destUrl: string) => void;
+};
+
+/**
+ * The counters of one destination, across its reconnects
+ */
+export type DestinationCounters = {
+    url: string;
+    media: MediaStats;
+    reconnects: number;
+    // while the destination accepts the publish
+    connectedAt?: number;
+    bytesOut: number;
+};
+
+/**
+ * Forwards every audio, video and data message received from a publisher
+ * to N outbound RTMP publish sessions, like RelayObserver in go-f/relay.go
+ *
+ * Destinations that drop are reconnected while the stream is published,
+ * each (re)connected destination first gets the stream's GOP cache.
+ */
+export class FanOut {
+    private pushSessions = new Map<string, PushSession>();
+    private reconnectTimers = new Map<
+        string,
+        ReturnType<typeof setTimeout>
+    >();
+    private readonly counters = new Map<string, DestinationCounters>();
+    private stopped = false;
+
+    constructor(
+        readonly destUrls: string[],
+        readonly stream: LiveStream,
+        private readonly handlers: FanOutHandlers = {},
+    ) {
+        for (const url of destUrls) {
+            this.counters.set(url, {
+                url,
+                media: new MediaStats(),
+                reconnects: 0,
+                bytesOut: 0,
+            });
+        }
+    }
+
+    start(): void {
+        console.log(
+            `[FANOUT] Starting push sessions to ${this.destUrls.length} destinations`,
+        );
+        this.stopped = false;
+        for (const destUrl of this.destUrls) {
+            this.startPushSession(destUrl, 0);
+        }
+    }
+
+    forward(message: Message): void {
+        // Relay the message to all push sessions
+        for (const pushSession of this.pushSessions.values()) {
+            pushSession.write(message);
+        }
+    }
+
+    /**
+     * The counters of every destination, bytesOut including the current
+     * push session
+     */
+    stats(): DestinationCounters[] {
+        return [...this.counters.values()].map((counters) => ({
+            ...counters,
+            bytesOut: counters.bytesOut +
+                (this.pushSessions.get(counters.url)?.bytesOut ?? 0),
+        }));
+    }
+
+    /**
+     * Disposes the push sessions and cancels pending reconnects
+     */
+    stop(): void {
+        this.stopped = true;
+        for (const timer of this.reconnectTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.reconnectTimers.clear();
+        for (const pushSession of this.pushSessions.values()) {
+            console.log(`[FANOUT] Disposing push session ${pushSession.url}`);
+            pushSession.close();
+        }
+        this.pushSessions.clear();
+    }
+
+    private startPushSession(destUrl: string, attempt: number) {
+        const counters = this.counters.get(destUrl)!;
+        const pushSession = new PushSession(destUrl, counters.media);
+        this.pushSessions.set(destUrl, pushSession);
+        // queued until the remote server accepts the publish
+        this.stream.cache.replay(pushSession);
+
+        console.log(`[FANOUT] Starting push to ${destUrl}`);
+        let up = false;
+        pushSession.start().catch((e) => e as Error).then((err) => {
+            if (err) {
+                console.error(
+                    `[FANOUT] Failed to start push session to ${destUrl}:`,
+                    err,
+                );
+                pushSession.close();
+            } else {
+                attempt = 0;
+                up = true;
+                counters.connectedAt = Date.now();
+                this.handlers.onDestinationUp?.(destUrl);
+            }
+        });
+
+        pushSession.wait().then(() => {
+            counters.bytesOut += pushSession.bytesOut;
+            counters.connectedAt = undefined;
+            if (up) {
+                this.handlers.onDestinationDown?.(destUrl);
+            }
+            if (this.stopped || this.pushSessions.get(destUrl) != pushSession) {
+                return;
+            }
+            this.pushSessions.delete(destUrl);
+            const delay = Math.min(
+                RECONNECT_DELAY_MS * 2 ** attempt,
+                MAX_RECONNECT_DELAY_MS,
+            );
+            console.log(`[FANOUT] Reconnecting to ${destUrl} in ${delay}ms`);
+            this.reconnectTimers.set(
+                destUrl,
+                setTimeout(() => {
+                    this.reconnectTimers.delete(destUrl);
+                    counters.reconnects++;
+                    this.startPushSession(destUrl, attempt + 1);
+                }, delay),
+            );
+        });
+    }
+}
@@ -0,0 +1,158 @@
+import { Writer } from "./chunk.ts";
+import { Reader } from "./reader.ts";
+
+// the window the server announces in its connect response
+export const DEFAULT_WINDOW_SIZE = 2500000;
+
+// a peer that doesn't acknowledge within this time is written to anyway,
+// the players' queues limit what it can cost
+const ACK_WAIT_TIMEOUT_MS = 5000;
+
+/**
+ * A connection that counts the bytes read from and written to it
+ */
+export class MeteredConn implements Reader, Writer {
+    bytesIn = 0;
+    bytesOut = 0;
+
+    constructor(private readonly conn: Deno.Conn) {}
+
+    get remoteAddr(): Deno.Addr {
+        return this.conn.remoteAddr;
+    }
+
+    async read(p: Uint8Array): Promise<number | null> {
+        const n = await this.conn.read(p);
+        if (n != null) {
+            this.bytesIn += n;
+        }
+        return n;
+    }
+
+    async write(p: Uint8Array): Promise<number> {
+        const n = await this.conn.write(p);
+        this.bytesOut += n;
+        return n;
+    }
+
+    close(): void {
+        this.conn.close();
+    }
+}
+
+// https://rtmp.veriskope.com/docs/spec/#545-set-peer-bandwidth-6
+export enum LimitType {
+    Hard = 0,
+    Soft = 1,
+    Dynamic = 2,
+}
+
+/**
+ * Acknowledgement and bandwidth bookkeeping of one connection
+ *
+ * https://rtmp.veriskope.com/docs/spec/#543-acknowledgement-3
+ */
+export class FlowControl {
+    // acknowledge every ackWindow bytes received
+    ackWindow = DEFAULT_WINDOW_SIZE;
+    private lastAckSent = 0;
+
+    // the window we announced, the peer acknowledges at it
+    announcedWindow: number | undefined;
+
+    // don't have more than peerBandwidth bytes unacknowledged by the peer
+    peerBandwidth: number | undefined;
+    private limitType: LimitType | undefined;
+    private lastAckReceived = 0;
+    private ackWaiters: (() => void)[] = [];
+
+    /**
+     * @param ackWaitTimeoutMs how long waitForWindow waits for the peer
+     */
+    constructor(
+        readonly conn: MeteredConn,
+        readonly ackWaitTimeoutMs = ACK_WAIT_TIMEOUT_MS,
+    ) {}
+
+    /**
+     * The sequence number to acknowledge once ackWindow bytes arrived
+     * since the last acknowledgement
+     */
+    acknowledgementDue(): number | undefined {
+        if (this.conn.bytesIn - this.lastAckSent < this.ackWindow) {
+            return;
+        }
+        this.lastAckSent = this.conn.bytesIn;
+        // the sequence number wraps at 32 bits
+        return this.conn.bytesIn % 0x100000000;
+    }
+
+    onAcknowledgement(sequenceNumber: number): void {
+        this.lastAckReceived = sequenceNumber;
+        const waiters = this.ackWaiters;
+        this.ackWaiters = [];
+        for (const resolve of waiters) {
+            resolve();
+        }
+    }
+
+    /**
+     * Applies a Set Peer Bandwidth message, returns the window size to
+     * announce back if it differs from the last one announced
+     */
+    setPeerBandwidth(
+        windowSize: number,
+        limitType: LimitType,
+    ): number | undefined {
+        switch (limitType) {
+            case LimitType.Hard:
+                this.peerBandwidth = windowSize;
+                this.limitType = limitType;
+                break;
+            case LimitType.Soft:
+                this.peerBandwidth = Math.min(
+                    this.peerBandwidth ?? windowSize,
+                    windowSize,
+                );
+                this.limitType = limitType;
+                break;
+            case LimitType.Dynamic:
+                // only meaningful if the previous limit was hard
+                if (this.limitType != LimitType.Hard) {
+                    return;
+                }
+                this.peerBandwidth = windowSize;
+                break;
+            default:
+                console.warn(`Unknown peer bandwidth limit type ${limitType}`);
+                return;
+        }
+        if (this.peerBandwidth != this.announcedWindow) {
+            this.announcedWindow = this.peerBandwidth;
+            return this.peerBandwidth;
+        }
+    }
+
+    /**
+     * Waits until the peer acknowledged enough to stay within its bandwidth
+     */
+    async waitForWindow(): Promise<void> {
+        const deadline = Date.now() + this.ackWaitTimeoutMs;
+        while (this.unacknowledged() >= (this.peerBandwidth ?? Infinity)) {
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                return;
+            }
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            await new Promise<void>((resolve) => {
+                this.ackWaiters.push(resolve);
+                timer = setTimeout(resolve, remaining);
+            });
+            clearTimeout(timer);
+        }
+    }
+
+    private unacknowledged() {
+        return (this.conn.bytesOut - this.lastAckReceived) >>> 0;
+    }
+}
@@ -0,0 +1,127 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+    DEFAULT_WINDOW_SIZE,
+    FlowControl,
+    LimitType,
+    MeteredConn,
+} from "./flow.ts";
+
+/**
+ * A MeteredConn of which only the byte counters are used
+ */
+function counters() {
+    return new MeteredConn({} as Deno.Conn);
+}
+
+Deno.test("MeteredConn counts the bytes read and written", async () => {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const [client, server] = await Promise.all([
+        Deno.connect({ hostname: "127.0.0.1", port: listener.addr.port }),
+        listener.accept(),
+    ]);
+    listener.close();
+    const conn = new MeteredConn(client);
+
+    assertEquals(await conn.write(new Uint8Array(1000)), 1000);
+    await conn.write(new Uint8Array(24));
+    assertEquals(conn.bytesOut, 1024);
+
+    await server.write(new Uint8Array(10));
+    server.close();
+    const p = new Uint8Array(64);
+    assertEquals(await conn.read(p), 10);
+    // the end of the stream counts nothing
+    assertEquals(await conn.read(p), null);
+    assertEquals(conn.bytesIn, 10);
+    conn.close();
+});
+
+Deno.test("FlowControl acknowledges every window", () => {
+    const conn = counters();
+    const flow = new FlowControl(conn);
+    assertEquals(flow.ackWindow, DEFAULT_WINDOW_SIZE);
+    flow.ackWindow = 1000;
+
+    conn.bytesIn = 999;
+    assertEquals(flow.acknowledgementDue(), undefined);
+    conn.bytesIn = 1500;
+    assertEquals(flow.acknowledgementDue(), 1500);
+    // counted from the last acknowledgement
+    assertEquals(flow.acknowledgementDue(), undefined);
+    conn.bytesIn = 2499;
+    assertEquals(flow.acknowledgementDue(), undefined);
+    conn.bytesIn = 2500;
+    assertEquals(flow.acknowledgementDue(), 2500);
+
+    // the sequence number wraps at 32 bits
+    conn.bytesIn = 2 ** 32 + 7;
+    assertEquals(flow.acknowledgementDue(), 7);
+});
+
+Deno.test("FlowControl applies hard, soft and dynamic limits", () => {
+    const flow = new FlowControl(counters());
+    // the window is announced back when it changes
+    assertEquals(flow.setPeerBandwidth(5000, LimitType.Hard), 5000);
+    assertEquals(flow.setPeerBandwidth(5000, LimitType.Hard), undefined);
+
+    // soft only lowers the limit
+    assertEquals(flow.setPeerBandwidth(8000, LimitType.Soft), undefined);
+    assertEquals(flow.peerBandwidth, 5000);
+    assertEquals(flow.setPeerBandwidth(3000, LimitType.Soft), 3000);
+
+    // dynamic applies only after a hard limit
+    assertEquals(flow.setPeerBandwidth(9000, LimitType.Dynamic), undefined);
+    assertEquals(flow.peerBandwidth, 3000);
+    flow.setPeerBandwidth(4000, LimitType.Hard);
+    assertEquals(flow.setPeerBandwidth(9000, LimitType.Dynamic), 9000);
+    assertEquals(flow.peerBandwidth, 9000);
+
+    assertEquals(flow.setPeerBandwidth(1, 7 as LimitType), undefined);
+    assertEquals(flow.peerBandwidth, 9000);
+
+    // a first soft limit is taken as is
+    const soft = new FlowControl(counters());
+    assertEquals(soft.setPeerBandwidth(6000, LimitType.Soft), 6000);
+});
+
+Deno.test("FlowControl waits for the peer's acknowledgement", async () => {
+    const conn = counters();
+    const flow = new FlowControl(conn, 1000);
+    // no limit yet
+    conn.bytesOut = 10 ** 9;
+    await flow.waitForWindow();
+
+    conn.bytesOut = 0;
+    flow.setPeerBandwidth(1000, LimitType.Hard);
+    conn.bytesOut = 999;
+    await flow.waitForWindow();
+
+    conn.bytesOut = 1500;
+    let done = false;
+    const waiting = flow.waitForWindow().then(() => done = true);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert(!done);
+    // not enough yet
+    flow.onAcknowledgement(400);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert(!done);
+    flow.onAcknowledgement(600);
+    await waiting;
+
+    // the peer's sequence numbers wrap at 32 bits
+    conn.bytesOut = 2 ** 32 + 100;
+    flow.onAcknowledgement(50);
+    const started = Date.now();
+    await flow.waitForWindow();
+    assert(Date.now() - started < 500);
+});
+
+Deno.test("FlowControl stops waiting for a peer that never acknowledges", async () => {
+    const conn = counters();
+    const flow = new FlowControl(conn, 50);
+    flow.setPeerBandwidth(1000, LimitType.Hard);
+    conn.bytesOut = 5000;
+    const started = Date.now();
+    await flow.waitForWindow();
+    assert(Date.now() - started >= 45);
+});
@@ -0,0 +1,126 @@
+import { StreamMetadata } from "./metadata.ts";
+import { BufReader } from "./reader.ts";
+
+/**
+ * The FLV file format, written by FlvRecorder and read by publishFile
+ *
+ * https://veovera.org/docs/legacy/video-file-format-v10-1-spec.pdf E.2, E.3
+ */
+
+export const FLV_HEADER_SIZE = 9;
+export const TAG_HEADER_SIZE = 11;
+export const FLAG_AUDIO = 0x04;
+export const FLAG_VIDEO = 0x01;
+
+/**
+ * The tag types are the RTMP message types: 8 audio, 9 video, 18 script data
+ */
+export type FlvTag = {
+    type: number;
+    timestamp: number;
+    data: Uint8Array;
+};
+
+/**
+ * The header and PreviousTagSize0
+ */
+export function encodeFlvHeader(flags: number): Uint8Array {
+    const header = new Uint8Array(FLV_HEADER_SIZE + 4);
+    header.set([0x46, 0x4c, 0x56, 1, flags]); // "FLV", version 1
+    new DataView(header.buffer).setUint32(5, FLV_HEADER_SIZE);
+    return header;
+}
+
+/**
+ * The audio and video flags of the header, both when the publisher did not
+ * tell its codecs
+ */
+export function flvHeaderFlags(
+    { videoCodecId, audioCodecId }: StreamMetadata,
+): number {
+    if (videoCodecId === undefined && audioCodecId === undefined) {
+        return FLAG_AUDIO | FLAG_VIDEO;
+    }
+    return (audioCodecId !== undefined ? FLAG_AUDIO : 0) |
+        (videoCodecId !== undefined ? FLAG_VIDEO : 0);
+}
+
+/**
+ * FLVTAG followed by its PreviousTagSize
+ */
+export function encodeFlvTag({ type, timestamp, data }: FlvTag): Uint8Array {
+    const tag = new Uint8Array(TAG_HEADER_SIZE + data.length + 4);
+    tag[0] = type;
+    tag.set([data.length >> 16, data.length >> 8, data.length], 1);
+    // the lower 24 bits, then TimestampExtended
+    tag.set([timestamp >> 16, timestamp >> 8, timestamp], 4);
+    tag[7] = timestamp >>> 24;
+    // StreamID is always 0
+    tag.set(data, TAG_HEADER_SIZE);
+    new DataView(tag.buffer).setUint32(
+        TAG_HEADER_SIZE + data.length,
+        TAG_HEADER_SIZE + data.length,
+    );
+    return tag;
+}
+
+/**
+ * Reads the header up to the first tag, returns its audio and video flags
+ */
+export async function readFlvHeader(
+    reader: BufReader,
+): Promise<number | Error> {
+    const header = await reader.readExact(FLV_HEADER_SIZE);
+    if (
+        header == null || header[0] != 0x46 || header[1] != 0x4c ||
+        header[2] != 0x56
+    ) {
+        return new Error("not an FLV file");
+    }
+    const dataOffset = new DataView(header.buffer).getUint32(5);
+    if (dataOffset < FLV_HEADER_SIZE) {
+        return new Error(`invalid FLV DataOffset ${dataOffset}`);
+    }
+    // bytes a later version may add
+    if (dataOffset > FLV_HEADER_SIZE) {
+        await reader.readExact(dataOffset - FLV_HEADER_SIZE);
+    }
+    return header[4];
+}
+
+/**
+ * Yields the tags after the header until the end of the file. A file
+ * whose last tag was cut short, like a recording that was interrupted,
+ * ends before that tag.
+ */
+export async function* readFlvTags(reader: BufReader): AsyncGenerator<FlvTag> {
+    while (true) {
+        try {
+            // PreviousTagSize, of the header for the first tag
+            if (await reader.readExact(4) == null) {
+                return;
+            }
+            const header = await reader.readExact(TAG_HEADER_SIZE);
+            if (header == null) {
+                return;
+            }
+            const size = (header[1] << 16) | (header[2] << 8) | header[3];
+            const timestamp = ((header[7] << 24) | (header[4] << 16) |
+                (header[5] << 8) | header[6]) >>> 0;
+            const data = size > 0
+                ? await reader.readExact(size)
+                : new Uint8Array();
+            if (data == null) {
+                return;
+            }
+            // the upper bits are Reserved and Filter, set for encrypted tags
+            yield { type: header[0] & 0x1f, timestamp, data };
+        } catch (e) {
+            if (e instanceof Deno.errors.UnexpectedEof) {
+                console.warn(`[FLV] Truncated tag at the end of the file`);
+                return;
+            }
+            throw e;
+        }
+    }
+}
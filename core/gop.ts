@@ -0,0 +1,187 @@
+import { parseAMF0Value } from "./amf.ts";
+import {
+    isAudioSequenceHeader,
+    isKeyframe,
+    isVideoSequenceEnd,
+    isVideoSequenceHeader,
+    MediaTrack,
+    parseAudioTag,
+    parseVideoTag,
+} from "./media.ts";
+import { Message, MessageType } from "./messages.ts";
+import { Subscriber } from "./streams.ts";
+
+// the cached frames are replayed at once, they have to fit the queues of
+// the players (1024 messages) next to the headers and the live frames
+const MAX_CACHED_MESSAGES = 768;
+const MAX_CACHED_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Keeps what a subscriber attaching mid-stream needs to start decoding:
+ * onMetaData, the sequence headers of every codec and track and the
+ * frames since the last keyframes
+ */
+export class GopCache {
+    private metadata: Message | undefined;
+    // keyed by packet type and the tracks they configure, enhanced RTMP
+    // streams may send a multichannel config or one header per track
+    private videoSequenceHeaders = new Map<string, Message>();
+    private audioSequenceHeaders = new Map<string, Message>();
+    // each GOP starts with a keyframe, audio is kept with the video around it
+    private gops: Message[][] = [];
+    private cachedMessages = 0;
+    private cachedBytes = 0;
+
+    /**
+     * @param depth how many GOPs to keep, 0 only keeps the headers
+     */
+    constructor(readonly depth: number) {}
+
+    add(message: Message): void {
+        switch (message.header.type) {
+            case MessageType.DATA_AMF0:
+                if (isMetadata(message.payload)) {
+                    this.metadata = message;
+                }
+                break;
+
+            case MessageType.VIDEO: {
+                const tag = parseVideoTag(message.payload);
+                if (tag instanceof Error) {
+                    break;
+                }
+                if (isVideoSequenceHeader(tag)) {
+                    this.videoSequenceHeaders.set(
+                        headerKey(tag.packetType, tag.tracks),
+                        message,
+                    );
+                } else if (isKeyframe(tag) && !isVideoSequenceEnd(tag)) {
+                    this.startGop(message);
+                } else {
+                    this.addToGop(message);
+                }
+                break;
+            }
+
+            case MessageType.AUDIO: {
+                const tag = parseAudioTag(message.payload);
+                if (tag instanceof Error) {
+                    break;
+                }
+                if (isAudioSequenceHeader(tag)) {
+                    this.audioSequenceHeaders.set(
+                        headerKey(tag.packetType, tag.tracks),
+                        message,
+                    );
+                } else {
+                    this.addToGop(message);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Writes the cached headers and frames to a new subscriber
+     */
+    replay(subscriber: Subscriber): void {
+        const headers = [this.metadata, ...this.sequenceHeaders()];
+        for (const message of headers) {
+            if (message) {
+                subscriber.write(message);
+            }
+        }
+        for (const gop of this.gops) {
+            for (const message of gop) {
+                subscriber.write(message);
+            }
+        }
+    }
+
+    /**
+     * The decoder configurations of the stream, what a file or a decoder
+     * starting at a keyframe needs before it
+     */
+    sequenceHeaders(): Message[] {
+        return [
+            ...this.videoSequenceHeaders.values(),
+            ...this.audioSequenceHeaders.values(),
+        ];
+    }
+
+    clear(): void {
+        this.metadata = undefined;
+        this.videoSequenceHeaders.clear();
+        this.audioSequenceHeaders.clear();
+        this.dropGops();
+    }
+
+    private startGop(keyframe: Message) {
+        if (this.depth == 0) {
+            return;
+        }
+        this.gops.push([]);
+        while (this.gops.length > this.depth) {
+            this.dropOldestGop();
+        }
+        this.addToGop(keyframe);
+    }
+
+    /**
+     * Adds a frame to the current GOP, older GOPs make room for it. A GOP
+     * too long to replay is dropped, nothing is cached until the next
+     * keyframe.
+     */
+    private addToGop(message: Message) {
+        const gop = this.gops.at(-1);
+        if (!gop) {
+            return;
+        }
+        gop.push(message);
+        this.cachedMessages++;
+        this.cachedBytes += message.payload.length;
+        while (this.gops.length > 1 && this.overBudget()) {
+            this.dropOldestGop();
+        }
+        if (this.overBudget()) {
+            console.warn(
+                `[GOP] No keyframe in ${gop.length} messages, not caching until the next one`,
+            );
+            this.dropGops();
+        }
+    }
+
+    private overBudget() {
+        return this.cachedMessages > MAX_CACHED_MESSAGES ||
+            this.cachedBytes > MAX_CACHED_BYTES;
+    }
+
+    private dropOldestGop() {
+        for (const message of this.gops.shift() ?? []) {
+            this.cachedMessages--;
+            this.cachedBytes -= message.payload.length;
+        }
+    }
+
+    private dropGops() {
+        this.gops = [];
+        this.cachedMessages = 0;
+        this.cachedBytes = 0;
+    }
+}
+
+/**
+ * @setDataFrame onMetaData from a publisher, or a bare onMetaData
+ */
+function isMetadata(payload: Uint8Array) {
+    const { value } = parseAMF0Value(payload, 0);
+    return value == "@setDataFrame" || value == "onMetaData";
+}
+
+function headerKey(
+    packetType: number | undefined,
+    tracks: MediaTrack[] | undefined,
+) {
+    const trackIds = tracks?.map((track) => track.trackId).join(",") ?? "";
+    return `${packetType ?? ""}/${trackIds}`;
+}
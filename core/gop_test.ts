@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { GopCache } from "./gop.ts";
+import { Message, MessageType } from "./messages.ts";
+
+function message(type: number, payload: number[], timestamp = 0): Message {
+    return {
+        header: {
+            type,
+            payload_length: payload.length,
+            timestamp,
+            message_stream_id: 1,
+        },
+        payload: new Uint8Array(payload),
+    };
+}
+
+// legacy AVC: a sequence header, keyframes and inter frames
+const SEQUENCE_HEADER = message(MessageType.VIDEO, [0x17, 0, 0, 0, 0]);
+const keyframe = (t: number) =>
+    message(MessageType.VIDEO, [0x17, 1, 0, 0, 0], t);
+const frame = (t: number) => message(MessageType.VIDEO, [0x27, 1, 0, 0, 0], t);
+const aac = (t: number) => message(MessageType.AUDIO, [0xaf, 1, 0], t);
+
+function replayed(cache: GopCache) {
+    const messages: Message[] = [];
+    cache.replay({ write: (message) => messages.push(message) });
+    return messages;
+}
+
+Deno.test("GopCache keeps the headers and the last GOPs", () => {
+    const cache = new GopCache(1);
+    cache.add(SEQUENCE_HEADER);
+    cache.add(frame(0)); // before any keyframe
+    cache.add(keyframe(40));
+    cache.add(frame(80));
+    cache.add(keyframe(120));
+    cache.add(aac(130));
+    cache.add(frame(160));
+    assertEquals(replayed(cache).map((m) => m.header.timestamp), [
+        0,
+        120,
+        130,
+        160,
+    ]);
+
+    const headersOnly = new GopCache(0);
+    headersOnly.add(SEQUENCE_HEADER);
+    headersOnly.add(keyframe(0));
+    headersOnly.add(frame(40));
+    assertEquals(replayed(headersOnly), [SEQUENCE_HEADER]);
+});
+
+Deno.test("GopCache drops a GOP too long to replay", () => {
+    const cache = new GopCache(2);
+    cache.add(SEQUENCE_HEADER);
+    cache.add(keyframe(0));
+    cache.add(frame(40));
+    cache.add(keyframe(80));
+    // older GOPs make room first
+    for (let i = 0; i < 767; i++) {
+        cache.add(frame(120 + i));
+    }
+    assertEquals(replayed(cache).length, 1 + 768);
+    assertEquals(replayed(cache)[1].header.timestamp, 80);
+
+    // then the GOP itself goes, until the next keyframe
+    cache.add(frame(1000));
+    cache.add(frame(1001));
+    assertEquals(replayed(cache), [SEQUENCE_HEADER]);
+    cache.add(keyframe(2000));
+    assertEquals(replayed(cache).map((m) => m.header.timestamp), [0, 2000]);
+});
+
+Deno.test("GopCache limits the bytes cached", () => {
+    const cache = new GopCache(1);
+    cache.add(keyframe(0));
+    const large = message(MessageType.VIDEO, [0x27, 1, 0, 0, 0], 40);
+    large.payload = new Uint8Array(33 * 1024 * 1024);
+    large.payload[0] = 0x27;
+    large.payload[1] = 1;
+    cache.add(large);
+    assertEquals(replayed(cache), []);
+});
@@ -0,0 +1,300 @@
+import { concat } from "@std/bytes/concat";
+import {
+    AacPacketType,
+    AvcConfig,
+    isAacSequenceHeader,
+    isAvcSequenceHeader,
+    isKeyframe,
+    isVideoSequenceEnd,
+    parseAudioTag,
+    parseAvcDecoderConfigurationRecord,
+    parseVideoTag,
+    SoundFormat,
+    VideoCodecId,
+} from "./media.ts";
+import { Message, MessageType } from "./messages.ts";
+import { aacToAdts, avcToAnnexB, TsMuxer } from "./ts.ts";
+
+export type HlsOptions = {
+    // a segment ends at the first keyframe this many seconds after it began
+    segmentDuration?: number;
+    // segments listed in the playlist
+    playlistLength?: number;
+};
+
+const DEFAULT_SEGMENT_DURATION = 4;
+const DEFAULT_PLAYLIST_LENGTH = 6;
+// segments that left the playlist stay available for players still
+// downloading them
+const EXTRA_SEGMENTS = 2;
+
+type Segment = {
+    sequence: number;
+    duration: number; // seconds
+    // the stream restarted, timestamps and codec settings may change
+    discontinuity: boolean;
+    data: Uint8Array;
+};
+
+/**
+ * Remuxes the AVC and AAC of a published stream into MPEG-TS segments
+ * kept in memory, with a sliding live playlist, RFC 8216
+ *
+ * Other codecs are skipped, the stream is expected to have at most one
+ * video and one audio track.
+ */
+export class HlsPackager {
+    private readonly muxer = new TsMuxer();
+    private readonly segmentDuration: number;
+    private readonly playlistLength: number;
+    private segments: Segment[] = [];
+    // the segment being written, it starts with the PAT and PMT
+    private parts: Uint8Array[] = [];
+    private segmentStart: number | undefined; // timestamp in milliseconds
+    private segmentHasVideo = false;
+    private lastTimestamp = 0;
+    private discontinuity: boolean;
+    private avcConfig: AvcConfig | undefined;
+    private audioSpecificConfig: Uint8Array | undefined;
+    private ended = false;
+
+    /**
+     * @param nextSequence the media sequence number of the first segment,
+     * continuing the previous publish of the stream
+     */
+    constructor(
+        readonly name: string,
+        options: HlsOptions = {},
+        public nextSequence = 0,
+    ) {
+        this.segmentDuration = positive(options.segmentDuration) ??
+            DEFAULT_SEGMENT_DURATION;
+        this.playlistLength = positive(options.playlistLength) ??
+            DEFAULT_PLAYLIST_LENGTH;
+        this.discontinuity = nextSequence > 0;
+    }
+
+    write(message: Message): void {
+        if (this.ended) {
+            return;
+        }
+        const err = message.header.type == MessageType.VIDEO
+            ? this.writeVideo(message)
+            : message.header.type == MessageType.AUDIO
+            ? this.writeAudio(message)
+            : undefined;
+        if (err) {
+            console.warn(`[HLS] ${this.name}: ${err.message}`);
+        }
+    }
+
+    /**
+     * Completes the last segment and ends the playlist
+     */
+    end(): void {
+        if (this.ended) {
+            return;
+        }
+        this.cutSegment(this.lastTimestamp);
+        this.ended = true;
+        console.log(`[HLS] ${this.name} ended`);
+    }
+
+    playlist(): string {
+        const segments = this.segments.slice(-this.playlistLength);
+        const targetDuration = Math.ceil(
+            Math.max(
+                this.segmentDuration,
+                ...segments.map((segment) => segment.duration),
+            ),
+        );
+        const lines = [
+            "#EXTM3U",
+            "#EXT-X-VERSION:3",
+            `#EXT-X-TARGETDURATION:${targetDuration}`,
+            `#EXT-X-MEDIA-SEQUENCE:${
+                segments[0]?.sequence ?? this.nextSequence
+            }`,
+        ];
+        for (const segment of segments) {
+            if (segment.discontinuity) {
+                lines.push("#EXT-X-DISCONTINUITY");
+            }
+            lines.push(
+                `#EXTINF:${segment.duration.toFixed(3)},`,
+                `${segment.sequence}.ts`,
+            );
+        }
+        if (this.ended) {
+            lines.push("#EXT-X-ENDLIST");
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    segment(sequence: number): Uint8Array | undefined {
+        return this.segments.find((segment) => segment.sequence == sequence)
+            ?.data;
+    }
+
+    private writeVideo(message: Message): Error | undefined {
+        const tag = parseVideoTag(message.payload);
+        if (tag instanceof Error) {
+            return tag;
+        }
+        if (tag.codecId != VideoCodecId.AVC) {
+            return;
+        }
+        if (isAvcSequenceHeader(tag)) {
+            const config = parseAvcDecoderConfigurationRecord(tag.data);
+            if (config instanceof Error) {
+                return config;
+            }
+            this.avcConfig = config;
+            return;
+        }
+        if (!this.avcConfig || isVideoSequenceEnd(tag)) {
+            return;
+        }
+
+        const { timestamp } = message.header;
+        const keyframe = isKeyframe(tag);
+        if (keyframe) {
+            this.startSegmentIfDue(timestamp);
+        }
+        // segments of a stream with video begin at a keyframe
+        if (this.segmentStart === undefined || !this.segmentHasVideo) {
+            return;
+        }
+
+        const annexB = avcToAnnexB(this.avcConfig, tag.data, keyframe);
+        if (annexB instanceof Error) {
+            return annexB;
+        }
+        this.parts.push(
+            this.muxer.video(
+                timestamp,
+                tag.compositionTime ?? 0,
+                keyframe,
+                annexB,
+            ),
+        );
+        this.lastTimestamp = timestamp;
+    }
+
+    private writeAudio(message: Message): Error | undefined {
+        const tag = parseAudioTag(message.payload);
+        if (tag instanceof Error) {
+            return tag;
+        }
+        if (tag.soundFormat != SoundFormat.AAC) {
+            return;
+        }
+        if (isAacSequenceHeader(tag)) {
+            this.audioSpecificConfig = tag.data;
+            return;
+        }
+        if (
+            !this.audioSpecificConfig || tag.aacPacketType != AacPacketType.RAW
+        ) {
+            return;
+        }
+
+        const { timestamp } = message.header;
+        if (!this.avcConfig) {
+            this.startSegmentIfDue(timestamp);
+        }
+        if (this.segmentStart === undefined) {
+            return;
+        }
+
+        const adts = aacToAdts(this.audioSpecificConfig, tag.data);
+        if (adts instanceof Error) {
+            return adts;
+        }
+        this.parts.push(
+            this.muxer.audio(timestamp, adts, !this.segmentHasVideo),
+        );
+        this.lastTimestamp = Math.max(this.lastTimestamp, timestamp);
+    }
+
+    /**
+     * Cuts the current segment when it is long enough, or when video
+     * showed up after it began without
+     */
+    private startSegmentIfDue(timestamp: number) {
+        if (this.segmentStart !== undefined) {
+            const due = timestamp - this.segmentStart >=
+                    this.segmentDuration * 1000 ||
+                (this.avcConfig && !this.segmentHasVideo);
+            if (!due) {
+                return;
+            }
+            this.cutSegment(timestamp);
+        }
+
+        this.segmentStart = timestamp;
+        this.segmentHasVideo = this.avcConfig !== undefined;
+        this.parts = [
+            this.muxer.tables(
+                this.segmentHasVideo,
+                this.audioSpecificConfig !== undefined,
+            ),
+        ];
+    }
+
+    private cutSegment(timestamp: number) {
+        if (this.segmentStart === undefined) {
+            return;
+        }
+        const data = concat(this.parts);
+
+        this.segments.push({
+            sequence: this.nextSequence++,
+            duration: Math.max(timestamp - this.segmentStart, 0) / 1000,
+            discontinuity: this.discontinuity,
+            data,
+        });
+        this.discontinuity = false;
+        while (this.segments.length > this.playlistLength + EXTRA_SEGMENTS) {
+            this.segments.shift();
+        }
+        this.parts = [];
+        this.segmentStart = undefined;
+    }
+}
+
+/**
+ * The HLS output of every published stream, keyed by "app/streamName"
+ */
+export class HlsStreams {
+    private readonly packagers = new Map<string, HlsPackager>();
+
+    constructor(readonly options: HlsOptions = {}) {}
+
+    get(name: string): HlsPackager | undefined {
+        return this.packagers.get(name);
+    }
+
+    /**
+     * Replaces the output of a previous publish, the playlist continues
+     * its sequence numbers after a discontinuity
+     */
+    start(name: string): HlsPackager {
+        const previous = this.packagers.get(name);
+        previous?.end();
+        const packager = new HlsPackager(
+            name,
+            this.options,
+            previous?.nextSequence,
+        );
+        this.packagers.set(name, packager);
+        return packager;
+    }
+}
+
+// NaN, infinite and non-positive options would never cut or prune segments
+function positive(value: number | undefined) {
+    return value !== undefined && Number.isFinite(value) && value > 0
+        ? value
+        : undefined;
+}
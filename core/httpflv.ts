@@ -0,0 +1,143 @@
+import { encodeFlvHeader, encodeFlvTag, flvHeaderFlags } from "./flv.ts";
+import {
+    isAudioSequenceHeader,
+    isVideoSequenceHeader,
+    parseAudioTag,
+    parseVideoTag,
+} from "./media.ts";
+import { Message, MessageType, stripSetDataFrame } from "./messages.ts";
+import { LiveStream, StreamRegistry, Subscriber } from "./streams.ts";
+
+// tags waiting for a slow player, past them messages are dropped like
+// RtmpSession does
+const MAX_QUEUED_TAGS = 1024;
+
+/**
+ * Plays a published stream as one endless FLV file, for HTTP-FLV players
+ * like flv.js, mpegts.js and ffplay.
+ *
+ * The body starts with the cached onMetaData, sequence headers and last
+ * keyframes, it ends when the publisher leaves.
+ *
+ * Usage:
+ *   const player = HttpFlvPlayer.play(streams, "live/test");
+ *   return new Response(player.body);
+ */
+export class HttpFlvPlayer implements Subscriber {
+    readonly body: ReadableStream<Uint8Array>;
+    private controller!: ReadableStreamDefaultController<Uint8Array>;
+    // timestamps start at 0 from the first frame after the headers
+    private baseTimestamp: number | undefined;
+    private closed = false;
+
+    /**
+     * undefined when the stream is not published
+     */
+    static play(
+        streams: StreamRegistry,
+        name: string,
+    ): HttpFlvPlayer | undefined {
+        const stream = streams.get(name);
+        if (!stream?.publisher) {
+            return;
+        }
+        return new HttpFlvPlayer(streams, stream);
+    }
+
+    private constructor(
+        private readonly streams: StreamRegistry,
+        readonly stream: LiveStream,
+    ) {
+        this.body = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                this.controller = controller;
+                controller.enqueue(
+                    encodeFlvHeader(
+                        flvHeaderFlags(
+                            stream.publisher?.metadata ?? { properties: {} },
+                        ),
+                    ),
+                );
+                streams.subscribe(stream.name, this);
+            },
+            cancel: () => {
+                // the player disconnected
+                this.close();
+            },
+        }, new CountQueuingStrategy({ highWaterMark: MAX_QUEUED_TAGS }));
+    }
+
+    write(message: Message): void {
+        if (this.closed) {
+            return;
+        }
+        const { type, timestamp } = message.header;
+        if (
+            type != MessageType.AUDIO && type != MessageType.VIDEO &&
+            type != MessageType.DATA_AMF0
+        ) {
+            return;
+        }
+        if ((this.controller.desiredSize ?? 0) <= 0) {
+            console.warn(
+                `[HTTP-FLV] ${this.stream.name}: Player too slow, dropping message type ${type}`,
+            );
+            return;
+        }
+
+        if (this.baseTimestamp === undefined && !isHeader(message)) {
+            this.baseTimestamp = timestamp;
+        }
+        this.controller.enqueue(encodeFlvTag({
+            type,
+            timestamp: Math.max(
+                0,
+                timestamp - (this.baseTimestamp ?? timestamp),
+            ),
+            // players expect onMetaData without the @setDataFrame
+            data: type == MessageType.DATA_AMF0
+                ? stripSetDataFrame(message.payload)
+                : message.payload,
+        }));
+    }
+
+    /**
+     * The next publisher may use other codecs, players reconnect for it
+     */
+    onUnpublish(): void {
+        this.close();
+        try {
+            this.controller.close();
+        } catch {
+            // already closed
+        }
+    }
+
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.streams.unsubscribe(this.stream.name, this);
+        console.log(`[HTTP-FLV] ${this.stream.name}: Player left`);
+    }
+}
+
+/**
+ * Metadata and sequence headers are written before the first frame
+ */
+function isHeader(message: Message) {
+    switch (message.header.type) {
+        case MessageType.DATA_AMF0:
+            return true;
+        case MessageType.VIDEO: {
+            const tag = parseVideoTag(message.payload);
+            return !(tag instanceof Error) && isVideoSequenceHeader(tag);
+        }
+        case MessageType.AUDIO: {
+            const tag = parseAudioTag(message.payload);
+            return !(tag instanceof Error) && isAudioSequenceHeader(tag);
+        }
+    }
+    return false;
+}
@@ -0,0 +1,240 @@
+import {
+    AacPacketType,
+    isAacSequenceHeader,
+    isAvcSequenceHeader,
+    isKeyframe,
+    isVideoSequenceEnd,
+    parseAudioSpecificConfig,
+    parseAudioTag,
+    parseAvcDecoderConfigurationRecord,
+    parseVideoTag,
+    SoundFormat,
+    VideoCodecId,
+} from "./media.ts";
+import { Message, MessageType } from "./messages.ts";
+import {
+    AUDIO_TRACK_ID,
+    Mp4Audio,
+    Mp4Muxer,
+    Mp4Sample,
+    Mp4Video,
+    VIDEO_TRACK_ID,
+} from "./mp4.ts";
+import { LiveStream, StreamRegistry, Subscriber } from "./streams.ts";
+
+// fragments waiting for a slow player, past them samples are dropped
+const MAX_QUEUED_FRAGMENTS = 1024;
+
+/**
+ * Plays the AVC and AAC of a published stream as fragmented MP4, for
+ * browsers appending it to a Media Source Extensions SourceBuffer.
+ *
+ * The body starts with the initialization segment of the codecs cached
+ * when it was requested, then the fragments from the last keyframe on.
+ * It ends when the publisher leaves or changes its codec settings.
+ *
+ * Usage:
+ *   const player = HttpMp4Player.play(streams, "live/test");
+ *   return new Response(player.body, {
+ *       headers: { "content-type": player.muxer.mimeType },
+ *   });
+ */
+export class HttpMp4Player implements Subscriber {
+    readonly body: ReadableStream<Uint8Array>;
+    private controller!: ReadableStreamDefaultController<Uint8Array>;
+    // timestamps start at 0 from the first keyframe
+    private baseTimestamp: number | undefined;
+    // a sample is written once the next one of its track gives its duration
+    private pending = new Map<number, Mp4Sample>();
+    private closed = false;
+
+    /**
+     * undefined when the stream is not published, an Error when it has no
+     * AVC or AAC sequence header yet
+     */
+    static play(
+        streams: StreamRegistry,
+        name: string,
+    ): HttpMp4Player | Error | undefined {
+        const stream = streams.get(name);
+        if (!stream?.publisher) {
+            return;
+        }
+
+        let video: Mp4Video | undefined;
+        let audio: Mp4Audio | undefined;
+        for (const message of stream.cache.sequenceHeaders()) {
+            if (message.header.type == MessageType.VIDEO) {
+                const tag = parseVideoTag(message.payload);
+                if (tag instanceof Error || !isAvcSequenceHeader(tag)) {
+                    continue;
+                }
+                const config = parseAvcDecoderConfigurationRecord(tag.data);
+                if (!(config instanceof Error)) {
+                    video = { config, decoderConfigurationRecord: tag.data };
+                }
+            } else {
+                const tag = parseAudioTag(message.payload);
+                if (tag instanceof Error || !isAacSequenceHeader(tag)) {
+                    continue;
+                }
+                const config = parseAudioSpecificConfig(tag.data);
+                if (!(config instanceof Error)) {
+                    audio = { config, audioSpecificConfig: tag.data };
+                }
+            }
+        }
+        if (!video && !audio) {
+            return new Error(`${name} has no AVC or AAC sequence header`);
+        }
+        return new HttpMp4Player(streams, stream, new Mp4Muxer(video, audio));
+    }
+
+    private constructor(
+        private readonly streams: StreamRegistry,
+        readonly stream: LiveStream,
+        readonly muxer: Mp4Muxer,
+    ) {
+        this.body = new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                this.controller = controller;
+                controller.enqueue(muxer.init());
+                streams.subscribe(stream.name, this);
+            },
+            cancel: () => {
+                // the player disconnected
+                this.close();
+            },
+        }, new CountQueuingStrategy({ highWaterMark: MAX_QUEUED_FRAGMENTS }));
+    }
+
+    write(message: Message): void {
+        if (this.closed) {
+            return;
+        }
+        const err = message.header.type == MessageType.VIDEO
+            ? this.writeVideo(message)
+            : message.header.type == MessageType.AUDIO
+            ? this.writeAudio(message)
+            : undefined;
+        if (err) {
+            console.warn(`[HTTP-MP4] ${this.stream.name}: ${err.message}`);
+            this.end();
+        }
+    }
+
+    /**
+     * The next publisher may use other codecs, players reconnect for it
+     */
+    onUnpublish(): void {
+        this.end();
+    }
+
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.streams.unsubscribe(this.stream.name, this);
+        console.log(`[HTTP-MP4] ${this.stream.name}: Player left`);
+    }
+
+    private end() {
+        this.close();
+        try {
+            this.controller.close();
+        } catch {
+            // already closed
+        }
+    }
+
+    private writeVideo(message: Message): Error | undefined {
+        const video = this.muxer.video;
+        const tag = parseVideoTag(message.payload);
+        if (!video || tag instanceof Error || tag.codecId != VideoCodecId.AVC) {
+            return;
+        }
+        if (isAvcSequenceHeader(tag)) {
+            if (!equal(tag.data, video.decoderConfigurationRecord)) {
+                return new Error("AVC settings changed, ending the preview");
+            }
+            return;
+        }
+        if (isVideoSequenceEnd(tag)) {
+            return;
+        }
+
+        const keyframe = isKeyframe(tag);
+        if (this.baseTimestamp === undefined) {
+            if (!keyframe) {
+                return;
+            }
+            this.baseTimestamp = message.header.timestamp;
+        }
+        this.writeSample(VIDEO_TRACK_ID, message.header.timestamp, {
+            compositionTime: tag.compositionTime ?? 0,
+            keyframe,
+            data: tag.data,
+        });
+    }
+
+    private writeAudio(message: Message): Error | undefined {
+        const audio = this.muxer.audio;
+        const tag = parseAudioTag(message.payload);
+        if (
+            !audio || tag instanceof Error || tag.soundFormat != SoundFormat.AAC
+        ) {
+            return;
+        }
+        if (isAacSequenceHeader(tag)) {
+            if (!equal(tag.data, audio.audioSpecificConfig)) {
+                return new Error("AAC settings changed, ending the preview");
+            }
+            return;
+        }
+        if (tag.aacPacketType != AacPacketType.RAW) {
+            return;
+        }
+
+        // streams with video start at its keyframe
+        if (this.baseTimestamp === undefined) {
+            if (this.muxer.video) {
+                return;
+            }
+            this.baseTimestamp = message.header.timestamp;
+        }
+        this.writeSample(AUDIO_TRACK_ID, message.header.timestamp, {
+            compositionTime: 0,
+            keyframe: true,
+            data: tag.data,
+        });
+    }
+
+    private writeSample(
+        trackId: number,
+        timestamp: number,
+        sample: Omit<Mp4Sample, "dts" | "duration">,
+    ) {
+        const dts = timestamp - (this.baseTimestamp ?? timestamp);
+        if (dts < 0) {
+            return;
+        }
+        const previous = this.pending.get(trackId);
+        this.pending.set(trackId, { ...sample, dts, duration: 0 });
+        if (!previous) {
+            return;
+        }
+        if ((this.controller.desiredSize ?? 0) <= 0) {
+            console.warn(
+                `[HTTP-MP4] ${this.stream.name}: Player too slow, dropping a sample of track ${trackId}`,
+            );
+            return;
+        }
+        previous.duration = Math.max(0, dts - previous.dts);
+        this.controller.enqueue(this.muxer.fragment(trackId, previous));
+    }
+}
+
+function equal(a: Uint8Array, b: Uint8Array) {
+    return a.length == b.length && a.every((byte, i) => byte == b[i]);
+}
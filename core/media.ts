@@ -0,0 +1,808 @@
+/**
+ * FLV VIDEODATA and AUDIODATA, the payloads of RTMP video and audio messages
+ *
+ * https://veovera.org/docs/legacy/video-file-format-v10-1-spec.pdf E.4.2, E.4.3
+ * https://veovera.org/docs/enhanced/enhanced-rtmp-v2 for the FourCC codecs
+ */
+
+export enum VideoFrameType {
+    KEYFRAME = 1,
+    INTER_FRAME = 2,
+    DISPOSABLE_INTER_FRAME = 3,
+    GENERATED_KEYFRAME = 4,
+    VIDEO_INFO = 5, // video info or command frame
+}
+
+export enum VideoCodecId {
+    SORENSON_H263 = 2,
+    SCREEN_VIDEO = 3,
+    VP6 = 4,
+    VP6_ALPHA = 5,
+    SCREEN_VIDEO_V2 = 6,
+    AVC = 7,
+}
+
+export enum AvcPacketType {
+    SEQUENCE_HEADER = 0,
+    NALU = 1,
+    END_OF_SEQUENCE = 2,
+}
+
+// ExVideoTagHeader
+export enum VideoPacketType {
+    SEQUENCE_START = 0,
+    CODED_FRAMES = 1,
+    SEQUENCE_END = 2,
+    CODED_FRAMES_X = 3, // CodedFrames with a composition time of 0
+    METADATA = 4,
+    MPEG2TS_SEQUENCE_START = 5, // AV1 as carried in MPEG-2 TS
+    MULTITRACK = 6,
+    MOD_EX = 7,
+}
+
+export enum SoundFormat {
+    LINEAR_PCM = 0,
+    ADPCM = 1,
+    MP3 = 2,
+    LINEAR_PCM_LE = 3,
+    NELLYMOSER_16K = 4,
+    NELLYMOSER_8K = 5,
+    NELLYMOSER = 6,
+    G711_A_LAW = 7,
+    G711_MU_LAW = 8,
+    EX_HEADER = 9, // enhanced RTMP, a FourCC follows
+    AAC = 10,
+    SPEEX = 11,
+    MP3_8K = 14,
+    DEVICE_SPECIFIC = 15,
+}
+
+export enum AacPacketType {
+    SEQUENCE_HEADER = 0,
+    RAW = 1,
+}
+
+// ExAudioTagHeader
+export enum AudioPacketType {
+    SEQUENCE_START = 0,
+    CODED_FRAMES = 1,
+    SEQUENCE_END = 2,
+    MULTICHANNEL_CONFIG = 4,
+    MULTITRACK = 5,
+    MOD_EX = 7,
+}
+
+export enum AvMultitrackType {
+    ONE_TRACK = 0,
+    MANY_TRACKS = 1,
+    MANY_TRACKS_MANY_CODECS = 2,
+}
+
+// the FourCCs relayed as enhanced RTMP, in the spelling of the spec
+export const VIDEO_FOURCCS = ["avc1", "hvc1", "av01", "vp09", "vp08"];
+export const AUDIO_FOURCCS = ["mp4a", "Opus", "fLaC", "ac-3", "ec-3", ".mp3"];
+
+/**
+ * One track of a multitrack packet
+ */
+export type MediaTrack = {
+    trackId: number;
+    codecId: string;
+    compositionTime?: number;
+    data: Uint8Array;
+};
+
+export type VideoTag = {
+    frameType: VideoFrameType;
+    // CodecID, or the FourCC of enhanced RTMP. Missing from command frames
+    // and from multitrack packets whose tracks use different codecs
+    codecId?: number | string;
+    // AVC only
+    avcPacketType?: AvcPacketType;
+    // enhanced RTMP only, the packet type of the tracks when multitrack
+    packetType?: VideoPacketType;
+    videoCommand?: number; // 0 StartSeek, 1 EndSeek
+    tracks?: MediaTrack[];
+    compositionTime?: number; // milliseconds, may be negative
+    // what follows the header: the configuration record, NAL units or frame
+    data: Uint8Array;
+};
+
+export type AudioTag = {
+    soundFormat: SoundFormat;
+    // the FourCC when soundFormat is EX_HEADER, missing when the tracks
+    // of a multitrack packet use different codecs
+    codecId?: string;
+    // legacy only
+    soundRate?: number; // Hz, AAC always says 44100
+    soundSize?: 8 | 16;
+    stereo?: boolean;
+    // AAC only
+    aacPacketType?: AacPacketType;
+    // enhanced RTMP only, the packet type of the tracks when multitrack
+    packetType?: AudioPacketType;
+    tracks?: MediaTrack[];
+    data: Uint8Array;
+};
+
+/**
+ * AVCDecoderConfigurationRecord, ISO/IEC 14496-15 5.2.4.1
+ */
+export type AvcConfig = {
+    profile: number; // profile_idc, 66 baseline, 77 main, 100 high
+    compatibility: number;
+    level: number; // level_idc, 31 for 3.1
+    nalUnitLength: number; // bytes of the NAL unit size prefix
+    sps: Uint8Array[];
+    pps: Uint8Array[];
+    // from the first SPS
+    width: number;
+    height: number;
+    // RFC 6381 codecs parameter, e.g. "avc1.64001f"
+    codec: string;
+};
+
+/**
+ * AudioSpecificConfig, ISO/IEC 14496-3 1.6.2.1
+ */
+export type AacConfig = {
+    audioObjectType: number; // 2 for AAC LC, 5 for HE-AAC
+    sampleRate: number;
+    channels: number;
+    // RFC 6381 codecs parameter, e.g. "mp4a.40.2"
+    codec: string;
+};
+
+const SOUND_RATES = [5500, 11025, 22050, 44100];
+
+const AAC_SAMPLE_RATES = [
+    96000,
+    88200,
+    64000,
+    48000,
+    44100,
+    32000,
+    24000,
+    22050,
+    16000,
+    12000,
+    11025,
+    8000,
+    7350,
+];
+
+export function parseVideoTag(payload: Uint8Array): VideoTag | Error {
+    if (payload.length < 1) {
+        return new Error("empty video tag");
+    }
+    if (payload[0] & 0x80) {
+        return parseExVideoTag(payload);
+    }
+    const frameType = payload[0] >> 4;
+    const codecId = payload[0] & 0x0f;
+    if (codecId != VideoCodecId.AVC) {
+        return { frameType, codecId, data: payload.subarray(1) };
+    }
+
+    if (payload.length < 5) {
+        return new Error(`AVC video tag too short: ${payload.length} bytes`);
+    }
+    return {
+        frameType,
+        codecId,
+        avcPacketType: payload[1],
+        compositionTime: readSI24(payload, 2),
+        data: payload.subarray(5),
+    };
+}
+
+export function parseAudioTag(payload: Uint8Array): AudioTag | Error {
+    if (payload.length < 1) {
+        return new Error("empty audio tag");
+    }
+    const soundFormat = payload[0] >> 4;
+    if (soundFormat == SoundFormat.EX_HEADER) {
+        return parseExAudioTag(payload);
+    }
+    const tag: AudioTag = {
+        soundFormat,
+        soundRate: SOUND_RATES[(payload[0] >> 2) & 0x03],
+        soundSize: payload[0] & 0x02 ? 16 : 8,
+        stereo: (payload[0] & 0x01) == 1,
+        data: payload.subarray(1),
+    };
+    if (soundFormat == SoundFormat.AAC) {
+        if (payload.length < 2) {
+            return new Error("AAC audio tag too short");
+        }
+        tag.aacPacketType = payload[1];
+        tag.data = payload.subarray(2);
+    }
+    return tag;
+}
+
+export function isKeyframe(tag: VideoTag): boolean {
+    return tag.frameType == VideoFrameType.KEYFRAME;
+}
+
+/**
+ * An AVCDecoderConfigurationRecord, legacy or as avc1 SequenceStart
+ */
+export function isAvcSequenceHeader(tag: VideoTag): boolean {
+    if (tag.codecId == VideoCodecId.AVC) {
+        return tag.avcPacketType == AvcPacketType.SEQUENCE_HEADER;
+    }
+    return tag.codecId == "avc1" && !tag.tracks &&
+        tag.packetType == VideoPacketType.SEQUENCE_START;
+}
+
+/**
+ * An AudioSpecificConfig, legacy or as mp4a SequenceStart
+ */
+export function isAacSequenceHeader(tag: AudioTag): boolean {
+    if (tag.soundFormat == SoundFormat.AAC) {
+        return tag.aacPacketType == AacPacketType.SEQUENCE_HEADER;
+    }
+    return tag.codecId == "mp4a" && !tag.tracks &&
+        tag.packetType == AudioPacketType.SEQUENCE_START;
+}
+
+/**
+ * The decoder configuration of any video codec, which a decoder joining
+ * mid-stream needs before the first keyframe
+ */
+export function isVideoSequenceHeader(tag: VideoTag): boolean {
+    if (tag.videoCommand !== undefined) {
+        return false;
+    }
+    return tag.avcPacketType == AvcPacketType.SEQUENCE_HEADER ||
+        tag.packetType == VideoPacketType.SEQUENCE_START ||
+        tag.packetType == VideoPacketType.MPEG2TS_SEQUENCE_START;
+}
+
+/**
+ * The end of sequence, which encoders flag as a keyframe
+ */
+export function isVideoSequenceEnd(tag: VideoTag): boolean {
+    return tag.avcPacketType == AvcPacketType.END_OF_SEQUENCE ||
+        (tag.videoCommand === undefined &&
+            tag.packetType == VideoPacketType.SEQUENCE_END);
+}
+
+export function isAudioSequenceHeader(tag: AudioTag): boolean {
+    return tag.aacPacketType == AacPacketType.SEQUENCE_HEADER ||
+        tag.packetType == AudioPacketType.SEQUENCE_START ||
+        tag.packetType == AudioPacketType.MULTICHANNEL_CONFIG;
+}
+
+/**
+ * The FourCCs both sides of a connect support, from the fourCcList and
+ * the FourCC info maps of the command object. "*" stands for any codec.
+ * Returns undefined for a client that knows nothing of enhanced RTMP
+ */
+export function negotiateFourCcList(
+    commandObject: Record<string, unknown>,
+): string[] | undefined {
+    const offered: string[] = [];
+    const { fourCcList, videoFourCcInfoMap, audioFourCcInfoMap } =
+        commandObject;
+    if (Array.isArray(fourCcList)) {
+        offered.push(
+            ...fourCcList.filter((fourCc) => typeof fourCc == "string"),
+        );
+    }
+    for (const map of [videoFourCcInfoMap, audioFourCcInfoMap]) {
+        if (typeof map == "object" && map != null) {
+            offered.push(...Object.keys(map));
+        }
+    }
+    if (offered.length == 0) {
+        return;
+    }
+
+    const supported = [...VIDEO_FOURCCS, ...AUDIO_FOURCCS];
+    if (offered.includes("*")) {
+        return supported;
+    }
+    return supported.filter((fourCc) => offered.includes(fourCc));
+}
+
+export function parseAvcDecoderConfigurationRecord(
+    data: Uint8Array,
+): AvcConfig | Error {
+    if (data.length < 7) {
+        return new Error("AVCDecoderConfigurationRecord too short");
+    }
+    if (data[0] != 1) {
+        return new Error(
+            `unknown AVCDecoderConfigurationRecord version ${data[0]}`,
+        );
+    }
+
+    let position = 5;
+    const readParameterSets = (count: number) => {
+        const sets: Uint8Array[] = [];
+        for (let i = 0; i < count; i++) {
+            if (position + 2 > data.length) {
+                return;
+            }
+            const length = (data[position] << 8) | data[position + 1];
+            position += 2;
+            if (position + length > data.length) {
+                return;
+            }
+            sets.push(data.slice(position, position + length));
+            position += length;
+        }
+        return sets;
+    };
+
+    const sps = readParameterSets(data[position++] & 0x1f);
+    const pps = sps && position < data.length
+        ? readParameterSets(data[position++])
+        : undefined;
+    if (!sps || !pps) {
+        return new Error("AVCDecoderConfigurationRecord truncated");
+    }
+    if (sps.length == 0) {
+        return new Error("AVCDecoderConfigurationRecord without SPS");
+    }
+
+    const size = parseSpsResolution(sps[0]);
+    if (size instanceof Error) {
+        return size;
+    }
+
+    const hex = (byte: number) => byte.toString(16).padStart(2, "0");
+    return {
+        profile: data[1],
+        compatibility: data[2],
+        level: data[3],
+        nalUnitLength: (data[4] & 0x03) + 1,
+        sps,
+        pps,
+        width: size.width,
+        height: size.height,
+        codec: `avc1.${hex(data[1])}${hex(data[2])}${hex(data[3])}`,
+    };
+}
+
+export function parseAudioSpecificConfig(data: Uint8Array): AacConfig | Error {
+    if (data.length < 2) {
+        return new Error("AudioSpecificConfig too short");
+    }
+    const bits = new BitReader(data);
+    try {
+        const readObjectType = () => {
+            const type = bits.read(5);
+            return type == 31 ? 32 + bits.read(6) : type;
+        };
+        const readSampleRate = () => {
+            const index = bits.read(4);
+            return index == 0xf ? bits.read(24) : AAC_SAMPLE_RATES[index];
+        };
+
+        let audioObjectType = readObjectType();
+        const codecObjectType = audioObjectType;
+        let sampleRate = readSampleRate();
+        const channelConfiguration = bits.read(4);
+        // explicit SBR/PS signalling, the output rate is the extension's
+        if (audioObjectType == 5 || audioObjectType == 29) {
+            sampleRate = readSampleRate();
+            audioObjectType = readObjectType();
+        }
+        if (sampleRate === undefined) {
+            return new Error("AudioSpecificConfig with a reserved sample rate");
+        }
+
+        return {
+            audioObjectType,
+            sampleRate,
+            // 7 means 7.1, the only configuration not equal to its count
+            channels: channelConfiguration == 7 ? 8 : channelConfiguration,
+            codec: `mp4a.40.${codecObjectType}`,
+        };
+    } catch (e) {
+        return e as Error;
+    }
+}
+
+/**
+ * ExVideoTagHeader and ExVideoTagBody
+ */
+function parseExVideoTag(payload: Uint8Array): VideoTag | Error {
+    const frameType = (payload[0] >> 4) & 0x07;
+    const exPacketType = parseExPacketType(payload, VideoPacketType.MOD_EX);
+    if (exPacketType instanceof Error) {
+        return exPacketType;
+    }
+
+    // a command frame carries nothing but the command
+    if (
+        frameType == VideoFrameType.VIDEO_INFO &&
+        exPacketType.packetType != VideoPacketType.METADATA
+    ) {
+        const { packetType, position } = exPacketType;
+        if (position >= payload.length) {
+            return new Error("video command frame without a command");
+        }
+        return {
+            frameType,
+            packetType,
+            videoCommand: payload[position],
+            data: payload.subarray(position + 1),
+        };
+    }
+
+    const header = parseExCodec(
+        payload,
+        exPacketType,
+        VideoPacketType.MULTITRACK,
+    );
+    if (header instanceof Error) {
+        return header;
+    }
+    const { packetType, position } = header;
+
+    // CodedFrames of AVC and HEVC start with a composition time
+    const withCompositionTime = (codecId: string, data: Uint8Array) => {
+        if (
+            packetType != VideoPacketType.CODED_FRAMES ||
+            (codecId != "avc1" && codecId != "hvc1")
+        ) {
+            return { data };
+        }
+        if (data.length < 3) {
+            return new Error(`${codecId} CodedFrames too short`);
+        }
+        return { compositionTime: readSI24(data, 0), data: data.subarray(3) };
+    };
+
+    const tag: VideoTag = {
+        frameType,
+        codecId: header.codecId,
+        packetType,
+        data: payload.subarray(position),
+    };
+    if (header.multitrackType === undefined) {
+        const body = withCompositionTime(header.codecId!, tag.data);
+        if (body instanceof Error) {
+            return body;
+        }
+        return { ...tag, ...body };
+    }
+
+    const tracks = parseTracks(
+        payload,
+        position,
+        header.multitrackType,
+        header.codecId,
+        withCompositionTime,
+    );
+    if (tracks instanceof Error) {
+        return tracks;
+    }
+    return { ...tag, tracks };
+}
+
+/**
+ * ExAudioTagHeader and ExAudioTagBody
+ */
+function parseExAudioTag(payload: Uint8Array): AudioTag | Error {
+    const exPacketType = parseExPacketType(payload, AudioPacketType.MOD_EX);
+    if (exPacketType instanceof Error) {
+        return exPacketType;
+    }
+    const header = parseExCodec(
+        payload,
+        exPacketType,
+        AudioPacketType.MULTITRACK,
+    );
+    if (header instanceof Error) {
+        return header;
+    }
+    const { packetType, position } = header;
+
+    const tag: AudioTag = {
+        soundFormat: SoundFormat.EX_HEADER,
+        codecId: header.codecId,
+        packetType,
+        data: payload.subarray(position),
+    };
+    if (header.multitrackType === undefined) {
+        return tag;
+    }
+
+    const tracks = parseTracks(
+        payload,
+        position,
+        header.multitrackType,
+        header.codecId,
+        (_codecId, data) => ({ data }),
+    );
+    if (tracks instanceof Error) {
+        return tracks;
+    }
+    return { ...tag, tracks };
+}
+
+/**
+ * The packet type in the low 4 bits of the first byte, after skipping
+ * the ModEx extensions that may replace it
+ */
+function parseExPacketType(
+    payload: Uint8Array,
+    modEx: number,
+): { packetType: number; position: number } | Error {
+    let packetType = payload[0] & 0x0f;
+    let position = 1;
+
+    // ModEx carries modifiers we do not use, like nanosecond timestamps
+    while (packetType == modEx) {
+        if (position >= payload.length) {
+            return new Error("ModEx packet too short");
+        }
+        let size = payload[position++] + 1;
+        if (size == 256) {
+            if (position + 2 > payload.length) {
+                return new Error("ModEx packet too short");
+            }
+            size = ((payload[position] << 8) | payload[position + 1]) + 1;
+            position += 2;
+        }
+        position += size;
+        if (position >= payload.length) {
+            return new Error("ModEx packet too short");
+        }
+        packetType = payload[position++] & 0x0f;
+    }
+    return { packetType, position };
+}
+
+/**
+ * The multitrack type and the packet type of the tracks, if multitrack,
+ * then the FourCC unless every track names its own
+ */
+function parseExCodec(
+    payload: Uint8Array,
+    { packetType, position }: { packetType: number; position: number },
+    multitrack: number,
+):
+    | {
+        packetType: number;
+        multitrackType?: AvMultitrackType;
+        codecId?: string;
+        position: number;
+    }
+    | Error {
+    let multitrackType: AvMultitrackType | undefined;
+    if (packetType == multitrack) {
+        if (position >= payload.length) {
+            return new Error("multitrack packet too short");
+        }
+        multitrackType = payload[position] >> 4;
+        packetType = payload[position++] & 0x0f;
+        if (packetType == multitrack) {
+            return new Error("nested multitrack packet");
+        }
+    }
+
+    let codecId: string | undefined;
+    if (multitrackType != AvMultitrackType.MANY_TRACKS_MANY_CODECS) {
+        if (position + 4 > payload.length) {
+            return new Error("enhanced RTMP packet without a FourCC");
+        }
+        codecId = readFourCc(payload, position);
+        position += 4;
+    }
+    return { packetType, multitrackType, codecId, position };
+}
+
+/**
+ * The track ID, FourCC and size prefixed tracks of a multitrack packet
+ */
+function parseTracks(
+    payload: Uint8Array,
+    position: number,
+    multitrackType: AvMultitrackType,
+    codecId: string | undefined,
+    parseBody: (
+        codecId: string,
+        data: Uint8Array,
+    ) => { compositionTime?: number; data: Uint8Array } | Error,
+): MediaTrack[] | Error {
+    const tracks: MediaTrack[] = [];
+    while (position < payload.length) {
+        const trackId = payload[position++];
+        let trackCodecId = codecId;
+        if (multitrackType == AvMultitrackType.MANY_TRACKS_MANY_CODECS) {
+            if (position + 4 > payload.length) {
+                return new Error(`track ${trackId} without a FourCC`);
+            }
+            trackCodecId = readFourCc(payload, position);
+            position += 4;
+        }
+
+        let end = payload.length;
+        if (multitrackType != AvMultitrackType.ONE_TRACK) {
+            if (position + 3 > payload.length) {
+                return new Error(`track ${trackId} without a size`);
+            }
+            end = position + 3 +
+                ((payload[position] << 16) | (payload[position + 1] << 8) |
+                    payload[position + 2]);
+            position += 3;
+            if (end > payload.length) {
+                return new Error(`track ${trackId} truncated`);
+            }
+        }
+
+        const body = parseBody(trackCodecId!, payload.subarray(position, end));
+        if (body instanceof Error) {
+            return body;
+        }
+        tracks.push({ trackId, codecId: trackCodecId!, ...body });
+        position = end;
+    }
+    return tracks;
+}
+
+function readFourCc(payload: Uint8Array, position: number): string {
+    return String.fromCharCode(...payload.subarray(position, position + 4));
+}
+
+function readSI24(payload: Uint8Array, position: number): number {
+    const value = (payload[position] << 16) | (payload[position + 1] << 8) |
+        payload[position + 2];
+    return value & 0x800000 ? value - 0x1000000 : value;
+}
+
+/**
+ * Coded size of an H.264 sequence parameter set, ITU-T H.264 7.3.2.1.1
+ */
+function parseSpsResolution(
+    sps: Uint8Array,
+): { width: number; height: number } | Error {
+    const bits = new BitReader(removeEmulationPrevention(sps));
+    try {
+        bits.read(8); // NAL unit header
+        const profileIdc = bits.read(8);
+        bits.read(16); // constraint flags and level_idc
+        bits.readUE(); // seq_parameter_set_id
+
+        let chromaFormatIdc = 1;
+        let separateColourPlane = false;
+        if (
+            [100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135]
+                .includes(profileIdc)
+        ) {
+            chromaFormatIdc = bits.readUE();
+            if (chromaFormatIdc == 3) {
+                separateColourPlane = bits.read(1) == 1;
+            }
+            bits.readUE(); // bit_depth_luma_minus8
+            bits.readUE(); // bit_depth_chroma_minus8
+            bits.read(1); // qpprime_y_zero_transform_bypass_flag
+            if (bits.read(1)) { // seq_scaling_matrix_present_flag
+                for (let i = 0; i < (chromaFormatIdc != 3 ? 8 : 12); i++) {
+                    if (bits.read(1)) {
+                        skipScalingList(bits, i < 6 ? 16 : 64);
+                    }
+                }
+            }
+        }
+
+        bits.readUE(); // log2_max_frame_num_minus4
+        const picOrderCntType = bits.readUE();
+        if (picOrderCntType == 0) {
+            bits.readUE(); // log2_max_pic_order_cnt_lsb_minus4
+        } else if (picOrderCntType == 1) {
+            bits.read(1); // delta_pic_order_always_zero_flag
+            bits.readSE(); // offset_for_non_ref_pic
+            bits.readSE(); // offset_for_top_to_bottom_field
+            const cycle = bits.readUE();
+            for (let i = 0; i < cycle; i++) {
+                bits.readSE(); // offset_for_ref_frame
+            }
+        }
+        bits.readUE(); // max_num_ref_frames
+        bits.read(1); // gaps_in_frame_num_value_allowed_flag
+
+        const widthInMbs = bits.readUE() + 1;
+        const heightInMapUnits = bits.readUE() + 1;
+        const frameMbsOnly = bits.read(1);
+        if (!frameMbsOnly) {
+            bits.read(1); // mb_adaptive_frame_field_flag
+        }
+        bits.read(1); // direct_8x8_inference_flag
+
+        let width = widthInMbs * 16;
+        let height = (2 - frameMbsOnly) * heightInMapUnits * 16;
+        if (bits.read(1)) { // frame_cropping_flag
+            const left = bits.readUE();
+            const right = bits.readUE();
+            const top = bits.readUE();
+            const bottom = bits.readUE();
+            // Table 6-1, in luma samples
+            const chroma = separateColourPlane ? 0 : chromaFormatIdc;
+            const cropUnitX = chroma == 1 || chroma == 2 ? 2 : 1;
+            const cropUnitY = (chroma == 1 ? 2 : 1) * (2 - frameMbsOnly);
+            width -= cropUnitX * (left + right);
+            height -= cropUnitY * (top + bottom);
+        }
+        return { width, height };
+    } catch (e) {
+        return e as Error;
+    }
+}
+
+function skipScalingList(bits: BitReader, size: number) {
+    let lastScale = 8;
+    let nextScale = 8;
+    for (let j = 0; j < size; j++) {
+        if (nextScale != 0) {
+            nextScale = (lastScale + bits.readSE() + 256) % 256;
+        }
+        lastScale = nextScale == 0 ? lastScale : nextScale;
+    }
+}
+
+/**
+ * Drops the 0x03 of every 0x000003 sequence in a NAL unit
+ */
+function removeEmulationPrevention(nal: Uint8Array): Uint8Array {
+    const out: number[] = [];
+    for (let i = 0; i < nal.length; i++) {
+        if (
+            i >= 2 && nal[i] == 3 && nal[i - 1] == 0 && nal[i - 2] == 0 &&
+            out.length >= 2 && out[out.length - 1] == 0 &&
+            out[out.length - 2] == 0
+        ) {
+            continue;
+        }
+        out.push(nal[i]);
+    }
+    return new Uint8Array(out);
+}
+
+/**
+ * Reads big-endian bit fields and Exp-Golomb codes
+ */
+class BitReader {
+    private position = 0; // in bits
+
+    constructor(private readonly data: Uint8Array) {}
+
+    read(count: number): number {
+        let value = 0;
+        for (let i = 0; i < count; i++) {
+            const byte = this.data[this.position >> 3];
+            if (byte === undefined) {
+                throw new Error("bitstream ends early");
+            }
+            const bit = (byte >> (7 - (this.position & 7))) & 1;
+            // multiply instead of shifting, fields may be up to 32 bits
+            value = value * 2 + bit;
+            this.position++;
+        }
+        return value;
+    }
+
+    // ue(v)
+    readUE(): number {
+        let leadingZeros = 0;
+        while (this.read(1) == 0) {
+            leadingZeros++;
+            if (leadingZeros > 31) {
+                throw new Error("invalid Exp-Golomb code");
+            }
+        }
+        return 2 ** leadingZeros - 1 + this.read(leadingZeros);
+    }
+
+    // se(v)
+    readSE(): number {
+        const value = this.readUE();
+        return value & 1 ? (value + 1) / 2 : -(value / 2);
+    }
+}
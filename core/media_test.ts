@@ -0,0 +1,324 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+    AudioPacketType,
+    AudioTag,
+    AvcPacketType,
+    AvMultitrackType,
+    isAacSequenceHeader,
+    isAvcSequenceHeader,
+    isKeyframe,
+    isVideoSequenceEnd,
+    isVideoSequenceHeader,
+    parseAudioSpecificConfig,
+    parseAudioTag,
+    parseAvcDecoderConfigurationRecord,
+    parseVideoTag,
+    SoundFormat,
+    VideoFrameType,
+    VideoPacketType,
+    VideoTag,
+} from "./media.ts";
+
+// the sequence headers ffmpeg sends for a 160x120 H.264 and mono AAC stream
+const AVC_SEQUENCE_HEADER = hex(
+    "17000000000164000bffe100196764000bacd942847e5c0440000003004000000c83c50a658001000668ebe3cb22c0",
+);
+const AAC_SEQUENCE_HEADER = hex("af00120856e500");
+
+function hex(text: string) {
+    return new Uint8Array(text.match(/../g)!.map((h) => parseInt(h, 16)));
+}
+
+function fourCc(text: string) {
+    return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+// the first byte of an ExVideoTagHeader
+function exVideo(frameType: VideoFrameType, packetType: number) {
+    return 0x80 | (frameType << 4) | packetType;
+}
+
+function video(payload: number[]): VideoTag {
+    const tag = parseVideoTag(new Uint8Array(payload));
+    if (tag instanceof Error) {
+        throw tag;
+    }
+    return tag;
+}
+
+function audio(payload: number[]): AudioTag {
+    const tag = parseAudioTag(new Uint8Array(payload));
+    if (tag instanceof Error) {
+        throw tag;
+    }
+    return tag;
+}
+
+Deno.test("legacy AVC tags", () => {
+    const header = parseVideoTag(AVC_SEQUENCE_HEADER);
+    assert(!(header instanceof Error));
+    assert(isKeyframe(header));
+    assert(isAvcSequenceHeader(header));
+    assert(isVideoSequenceHeader(header));
+
+    // an inter frame with a composition time of -2
+    const frame = video([0x27, AvcPacketType.NALU, 0xff, 0xff, 0xfe, 9]);
+    assertEquals(frame.frameType, VideoFrameType.INTER_FRAME);
+    assertEquals(frame.codecId, 7);
+    assertEquals(frame.compositionTime, -2);
+    assertEquals(Array.from(frame.data), [9]);
+
+    assert(
+        isVideoSequenceEnd(
+            video([0x17, AvcPacketType.END_OF_SEQUENCE, 0, 0, 0]),
+        ),
+    );
+    assert(parseVideoTag(new Uint8Array([0x17, 0])) instanceof Error);
+});
+
+Deno.test("ExVideoTagHeader with a FourCC", () => {
+    const start = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.SEQUENCE_START),
+        ...fourCc("hvc1"),
+        1,
+        2,
+    ]);
+    assertEquals(start.codecId, "hvc1");
+    assert(isVideoSequenceHeader(start));
+    assert(!isAvcSequenceHeader(start));
+    assertEquals(Array.from(start.data), [1, 2]);
+
+    // HEVC CodedFrames carry a composition time, CodedFramesX do not
+    const frames = video([
+        exVideo(VideoFrameType.INTER_FRAME, VideoPacketType.CODED_FRAMES),
+        ...fourCc("hvc1"),
+        0,
+        0,
+        40,
+        5,
+    ]);
+    assertEquals(frames.compositionTime, 40);
+    assertEquals(Array.from(frames.data), [5]);
+
+    const framesX = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.CODED_FRAMES_X),
+        ...fourCc("hvc1"),
+        5,
+    ]);
+    assertEquals(framesX.compositionTime, undefined);
+    assertEquals(Array.from(framesX.data), [5]);
+
+    // AV1 has no composition time even in CodedFrames
+    const av1 = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.CODED_FRAMES),
+        ...fourCc("av01"),
+        5,
+    ]);
+    assertEquals([av1.codecId, Array.from(av1.data)], ["av01", [5]]);
+
+    const avc = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.SEQUENCE_START),
+        ...fourCc("avc1"),
+    ]);
+    assert(isAvcSequenceHeader(avc));
+
+    const end = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.SEQUENCE_END),
+        ...fourCc("hvc1"),
+    ]);
+    assert(isVideoSequenceEnd(end));
+
+    assert(
+        parseVideoTag(
+            new Uint8Array([
+                exVideo(VideoFrameType.KEYFRAME, VideoPacketType.CODED_FRAMES),
+                ...fourCc("hv"),
+            ]),
+        ) instanceof Error,
+    );
+});
+
+Deno.test("ExVideoTagHeader command frames and ModEx", () => {
+    const command = video([
+        exVideo(VideoFrameType.VIDEO_INFO, VideoPacketType.CODED_FRAMES),
+        1, // EndSeek
+    ]);
+    assertEquals(command.videoCommand, 1);
+    assertEquals(command.codecId, undefined);
+    assert(!isVideoSequenceHeader(command));
+    assert(!isKeyframe(command));
+
+    // a 2 byte ModEx modifier before the real packet type
+    const modEx = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.MOD_EX),
+        1, // size - 1
+        0xaa,
+        0xbb,
+        (0 << 4) | VideoPacketType.CODED_FRAMES_X,
+        ...fourCc("av01"),
+        5,
+    ]);
+    assertEquals(modEx.packetType, VideoPacketType.CODED_FRAMES_X);
+    assertEquals(modEx.codecId, "av01");
+    assertEquals(Array.from(modEx.data), [5]);
+});
+
+Deno.test("multitrack video", () => {
+    // one track, its body runs to the end
+    const one = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.MULTITRACK),
+        (AvMultitrackType.ONE_TRACK << 4) | VideoPacketType.CODED_FRAMES,
+        ...fourCc("avc1"),
+        3, // track ID
+        0,
+        0,
+        0,
+        7,
+        8,
+    ]);
+    assertEquals(one.codecId, "avc1");
+    assertEquals(one.packetType, VideoPacketType.CODED_FRAMES);
+    assertEquals(one.tracks!.length, 1);
+    assertEquals(one.tracks![0].trackId, 3);
+    assertEquals(one.tracks![0].compositionTime, 0);
+    assertEquals(Array.from(one.tracks![0].data), [7, 8]);
+    // a track of a multitrack packet is not the stream's sequence header
+    assert(
+        !isAvcSequenceHeader({
+            ...one,
+            packetType: VideoPacketType.SEQUENCE_START,
+        }),
+    );
+
+    // many tracks of one codec, each with a 24 bit size
+    const many = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.MULTITRACK),
+        (AvMultitrackType.MANY_TRACKS << 4) | VideoPacketType.CODED_FRAMES_X,
+        ...fourCc("av01"),
+        0,
+        0,
+        0,
+        2,
+        1,
+        2,
+        1,
+        0,
+        0,
+        1,
+        3,
+    ]);
+    assertEquals(
+        many.tracks!.map((t) => [t.trackId, t.codecId, Array.from(t.data)]),
+        [[0, "av01", [1, 2]], [1, "av01", [3]]],
+    );
+
+    // many tracks, each naming its codec
+    const codecs = video([
+        exVideo(VideoFrameType.KEYFRAME, VideoPacketType.MULTITRACK),
+        (AvMultitrackType.MANY_TRACKS_MANY_CODECS << 4) |
+        VideoPacketType.CODED_FRAMES,
+        0,
+        ...fourCc("hvc1"),
+        0,
+        0,
+        4,
+        0,
+        0,
+        1,
+        9,
+        1,
+        ...fourCc("av01"),
+        0,
+        0,
+        1,
+        6,
+    ]);
+    assertEquals(codecs.codecId, undefined);
+    assertEquals(
+        codecs.tracks!.map((t) => [
+            t.trackId,
+            t.codecId,
+            t.compositionTime,
+            Array.from(t.data),
+        ]),
+        [[0, "hvc1", 1, [9]], [1, "av01", undefined, [6]]],
+    );
+
+    // a size past the end of the packet
+    assert(
+        parseVideoTag(
+            new Uint8Array([
+                exVideo(VideoFrameType.KEYFRAME, VideoPacketType.MULTITRACK),
+                (AvMultitrackType.MANY_TRACKS << 4) |
+                VideoPacketType.CODED_FRAMES_X,
+                ...fourCc("av01"),
+                0,
+                0,
+                0,
+                9,
+                1,
+            ]),
+        ) instanceof Error,
+    );
+});
+
+Deno.test("legacy and enhanced audio tags", () => {
+    const aac = parseAudioTag(AAC_SEQUENCE_HEADER);
+    assert(!(aac instanceof Error));
+    assertEquals(aac.soundFormat, SoundFormat.AAC);
+    assertEquals([aac.soundRate, aac.soundSize, aac.stereo], [44100, 16, true]);
+    assert(isAacSequenceHeader(aac));
+
+    const opus = audio([
+        (SoundFormat.EX_HEADER << 4) | AudioPacketType.CODED_FRAMES,
+        ...fourCc("Opus"),
+        1,
+    ]);
+    assertEquals([opus.codecId, Array.from(opus.data)], ["Opus", [1]]);
+
+    const tracks = audio([
+        (SoundFormat.EX_HEADER << 4) | AudioPacketType.MULTITRACK,
+        (AvMultitrackType.MANY_TRACKS << 4) | AudioPacketType.CODED_FRAMES,
+        ...fourCc("mp4a"),
+        0,
+        0,
+        0,
+        1,
+        4,
+        1,
+        0,
+        0,
+        1,
+        5,
+    ]);
+    assertEquals(
+        tracks.tracks!.map((t) => [t.trackId, t.codecId, Array.from(t.data)]),
+        [[0, "mp4a", [4]], [1, "mp4a", [5]]],
+    );
+});
+
+Deno.test("decoder configurations", () => {
+    const avc = parseAvcDecoderConfigurationRecord(
+        AVC_SEQUENCE_HEADER.subarray(5),
+    );
+    assert(!(avc instanceof Error));
+    assertEquals([avc.width, avc.height], [160, 120]);
+    assertEquals(avc.codec, "avc1.64000b");
+    assertEquals(avc.nalUnitLength, 4);
+    assertEquals([avc.sps.length, avc.pps.length], [1, 1]);
+
+    const aac = parseAudioSpecificConfig(AAC_SEQUENCE_HEADER.subarray(2));
+    assert(!(aac instanceof Error));
+    assertEquals(aac, {
+        audioObjectType: 2,
+        sampleRate: 44100,
+        channels: 1,
+        codec: "mp4a.40.2",
+    });
+
+    assert(
+        parseAvcDecoderConfigurationRecord(
+            AVC_SEQUENCE_HEADER.subarray(5, 20),
+        ) instanceof Error,
+    );
+});
@@ -1,8 +1,36 @@
+import { concat } from "@std/bytes/concat";
 import { assertEquals } from "jsr:@std/assert/equals";
 import { byte_3_to_number, byte_4_to_number, Chunk, FMT } from "./rtmp.ts";
 // Import AMF0 parsing utilities
-import { encodeAMF0Command, parseAMF0Command } from "./amf.ts";
-import { sendControlMessage, sendMessage } from "./chunk.ts";
+import {
+    AMF0DataType,
+    AMF0Value,
+    encodeAMF0Command,
+    encodeAMF0Value,
+    parseAMF0Command,
+    parseAMF0Value,
+} from "./amf.ts";
+import { AMF3Decoder, parseAMF3Command } from "./amf3.ts";
+import { splitQuery } from "./auth.ts";
+import { ChunkWriter, sendControlMessage } from "./chunk.ts";
+import { DEFAULT_WINDOW_SIZE, LimitType } from "./flow.ts";
+import {
+    isAacSequenceHeader,
+    isAvcSequenceHeader,
+    isVideoSequenceHeader,
+    negotiateFourCcList,
+    parseAudioSpecificConfig,
+    parseAudioTag,
+    parseAvcDecoderConfigurationRecord,
+    parseVideoTag,
+} from "./media.ts";
+import {
+    encodeMetadata,
+    metadataChanged,
+    parseMetadata,
+    StreamMetadata,
+} from "./metadata.ts";
+import { OUTBOUND_CHUNK_SIZE, RtmpSession } from "./session.ts";
 
 export type Message = {
     header: MessageHeader;
@@ -17,8 +45,60 @@ type MessageHeader = {
     message_stream_id: number; // 3 bytes
 };
 
+export type MessageLimits = {
+    // a peer announcing a larger message is disconnected
+    maxMessageSize?: number; // bytes
+    // so is one whose incomplete messages, over all chunk streams, add up
+    // to more
+    maxPendingSize?: number; // bytes
+};
+
+// enough for the keyframes of 4K streams, far below the 16MB a message
+// length may claim
+const DEFAULT_MAX_MESSAGE_SIZE = 8 * 1024 * 1024;
+const DEFAULT_MAX_PENDING_SIZE = 32 * 1024 * 1024;
+
+type PendingMessage = {
+    messageHeader?: MessageHeader;
+    totalLength: number;
+    collectedLength: number;
+    chunks: Chunk[];
+};
+
+/**
+ * The messages of a connection still missing chunks, per chunk stream
+ */
+export class PendingMessages {
+    readonly streams = new Map<number, PendingMessage>();
+    // the bytes collected for them
+    size = 0;
+
+    constructor(readonly limits: MessageLimits = {}) {}
+
+    /**
+     * Drops the message being received on the chunk stream, the peer sent
+     * an Abort Message for it
+     */
+    discard(chunkStreamId: number): void {
+        const messageStream = this.streams.get(chunkStreamId);
+        if (!messageStream) {
+            return;
+        }
+        this.size -= messageStream.collectedLength;
+        this.streams.set(chunkStreamId, {
+            messageHeader: messageStream.messageHeader,
+            totalLength: 0,
+            collectedLength: 0,
+            chunks: [],
+        });
+    }
+}
+
 // https://rtmp.veriskope.com/docs/spec/#53chunking
-export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
+export async function* messagesFromChunks(
+    chunks: AsyncIterable<Chunk>,
+    pending = new PendingMessages(),
+) {
     /**
      * After handshaking, the connection multiplexes one or more chunk streams.
      * Each chunk stream carries messages of one type from one message stream.
@@ -32,12 +112,11 @@ export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
     console.log("[MESSAGES] Starting messagesFromChunks generator function");
     console.log("[MESSAGES] Waiting for first chunk from client...");
     // Track message state for each chunk stream ID
-    const messageStreams = new Map<number, {
-        messageHeader?: MessageHeader;
-        totalLength: number;
-        collectedLength: number;
-        chunks: Chunk[];
-    }>();
+    const messageStreams = pending.streams;
+    const {
+        maxMessageSize = DEFAULT_MAX_MESSAGE_SIZE,
+        maxPendingSize = DEFAULT_MAX_PENDING_SIZE,
+    } = pending.limits;
 
     for await (const chunk of chunks) {
         console.log(
@@ -63,9 +142,9 @@ export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
         );
 
         // Process based on chunk format type
-        if (chunk.header.message_header.type === FMT.Type0) {
+        const header = chunk.header.message_header;
+        if (header.type === FMT.Type0) {
             // Type 0 chunks start new messages
-            const header = chunk.header.message_header;
             console.log(
                 `[MESSAGES] Type0 chunk with msg type ID: ${header.message_type_id}, length: ${header.message_length}, timestamp: ${header.timestamp}`,
             );
@@ -83,16 +162,39 @@ export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
                     yield message;
                 }
             }
+        } else if (!messageStream) {
+            // For non-Type0 chunks, we should already have a message stream
+            console.error(
+                "Received non-Type0 chunk without prior Type0 chunk for stream:",
+                chunkStreamId,
+            );
+            console.log(
+                `[MESSAGES] ERROR: Received ${chunk.header.message_header.type} chunk without prior Type0 chunk for stream ${chunkStreamId}`,
+            );
+            continue;
+        }
 
-            // Start a new message
+        if (
+            !messageStream || header.type === FMT.Type0 ||
+            messageStream.collectedLength == 0
+        ) {
+            // Start a new message, the chunk header has been resolved
+            // against the chunk stream state by readChunk
+            if ((header.message_length ?? 0) > maxMessageSize) {
+                throw new Error(
+                    `message of ${header.message_length} bytes on chunk stream ${chunkStreamId} exceeds the limit of ${maxMessageSize}`,
+                );
+            }
+            // an incomplete message was yielded above
+            pending.size -= messageStream?.collectedLength ?? 0;
             messageStream = {
                 messageHeader: {
-                    type: header.message_type_id,
-                    payload_length: header.message_length,
-                    timestamp: header.timestamp,
-                    message_stream_id: header.message_stream_id,
+                    type: header.message_type_id ?? 0,
+                    payload_length: header.message_length ?? 0,
+                    timestamp: header.timestamp ?? 0,
+                    message_stream_id: header.message_stream_id ?? 0,
                 },
-                totalLength: header.message_length,
+                totalLength: header.message_length ?? 0,
                 collectedLength: 0,
                 chunks: [],
             };
@@ -100,21 +202,17 @@ export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
                 `[MESSAGES] Starting new message for stream ${chunkStreamId}: type=${header.message_type_id}, length=${header.message_length}`,
             );
             messageStreams.set(chunkStreamId, messageStream);
-        } else if (!messageStream) {
-            // For non-Type0 chunks, we should already have a message stream
-            console.error(
-                "Received non-Type0 chunk without prior Type0 chunk for stream:",
-                chunkStreamId,
-            );
-            console.log(
-                `[MESSAGES] ERROR: Received ${chunk.header.message_header.type} chunk without prior Type0 chunk for stream ${chunkStreamId}`,
-            );
-            continue;
         }
 
         // Add chunk to the current message stream
         messageStream.chunks.push(chunk);
         messageStream.collectedLength += chunk.data.length;
+        pending.size += chunk.data.length;
+        if (pending.size > maxPendingSize) {
+            throw new Error(
+                `incomplete messages of ${pending.size} bytes exceed the limit of ${maxPendingSize}`,
+            );
+        }
         console.log(
             `[MESSAGES] Added chunk to stream ${chunkStreamId}: ${chunk.data.length} bytes, now collected ${messageStream.collectedLength}/${messageStream.totalLength}`,
         );
@@ -133,6 +231,7 @@ export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
             }
 
             // Reset for the next message in this stream
+            pending.size -= messageStream.collectedLength;
             messageStreams.set(chunkStreamId, {
                 messageHeader: messageStream.messageHeader,
                 totalLength: 0,
@@ -151,12 +250,7 @@ export async function* messagesFromChunks(chunks: AsyncIterable<Chunk>) {
     console.log("[MESSAGES] Exiting messagesFromChunks generator");
 }
 
-function assembleMessage(messageStream: {
-    messageHeader?: MessageHeader;
-    totalLength: number;
-    collectedLength: number;
-    chunks: Chunk[];
-}): Message | null {
+function assembleMessage(messageStream: PendingMessage): Message | null {
     console.log(
         `[ASSEMBLE] Starting to assemble message of length ${messageStream.totalLength} from ${messageStream.chunks.length} chunks`,
     );
@@ -239,16 +333,15 @@ export enum MessageType {
 
 /**
  * Handles an RTMP message based on its type and updates connection state accordingly
- * @param conn The TCP connection
+ * @param session The session of the connection the message came from
  * @param message The RTMP message to handle
- * @param chunkSizeRef Reference to the current chunk size value
  * @returns Any values that may need to be returned from handling the message
  */
 export async function handleMessage(
-    conn: Deno.TcpConn,
+    session: RtmpSession,
     message: Message,
-    chunkSizeRef: { value: number },
 ) {
+    const { writer, chunkSizeRef } = session;
     console.log("Handling message type:", message.header.type);
     console.log(
         `[HANDLER] Processing message: type=${message.header.type}, length=${message.payload.length}, timestamp=${message.header.timestamp}`,
@@ -262,41 +355,41 @@ export async function handleMessage(
             break;
 
         case MessageType.ABORT:
-            handleAbortMessage(message);
+            handleAbortMessage(message, session);
             break;
 
         case MessageType.ACKNOWLEDGEMENT:
-            handleAcknowledgement(message);
+            handleAcknowledgement(message, session);
             break;
 
         case MessageType.WINDOW_ACKNOWLEDGEMENT_SIZE:
-            handleWindowAcknowledgementSize(message, conn);
+            handleWindowAcknowledgementSize(message, session);
             break;
 
         case MessageType.SET_PEER_BANDWIDTH:
-            handleSetPeerBandwidth(message, conn);
+            await handleSetPeerBandwidth(message, session);
             break;
 
         case MessageType.USER_CONTROL:
-            handleUserControlMessage(message, conn);
+            handleUserControlMessage(message, writer);
             break;
 
         case MessageType.COMMAND_AMF0:
         case MessageType.COMMAND_AMF3:
-            await handleCommandMessage(message, conn);
+            await handleCommandMessage(message, session);
             break;
 
         case MessageType.DATA_AMF0:
         case MessageType.DATA_AMF3:
-            handleDataMessage(message);
+            handleDataMessage(message, session);
             break;
 
         case MessageType.AUDIO:
-            handleAudioMessage(message);
+            handleAudioMessage(message, session);
             break;
 
         case MessageType.VIDEO:
-            handleVideoMessage(message);
+            handleVideoMessage(message, session);
             break;
 
         default:
@@ -333,7 +426,7 @@ function handleSetChunkSize(
  * Handles Abort Message (type 2)
  * Client instructs the server to discard any partially received message
  */
-function handleAbortMessage(message: Message): void {
+function handleAbortMessage(message: Message, session: RtmpSession): void {
     if (message.payload.length < 4) {
         console.error("Invalid Abort message: payload too short");
         return;
@@ -348,14 +441,17 @@ function handleAbortMessage(message: Message): void {
     console.log(
         `Abort message received for chunk stream ID: ${chunkStreamId}`,
     );
-    // Here you would discard any partially received message with this chunk stream ID
+    session.abortMessage(chunkStreamId);
 }
 
 /**
  * Handles Acknowledgement message (type 3)
  * Client acknowledges receipt of a specific number of bytes
  */
-function handleAcknowledgement(message: Message): void {
+function handleAcknowledgement(
+    message: Message,
+    session: RtmpSession,
+): void {
     if (message.payload.length < 4) {
         console.error("Invalid Acknowledgement message: payload too short");
         return;
@@ -369,6 +465,7 @@ function handleAcknowledgement(message: Message): void {
     console.log(
         `Acknowledgement received for sequence number: ${sequenceNumber}`,
     );
+    session.flow.onAcknowledgement(sequenceNumber >>> 0);
 }
 
 /**
@@ -377,7 +474,7 @@ function handleAcknowledgement(message: Message): void {
  */
 function handleWindowAcknowledgementSize(
     message: Message,
-    conn: Deno.TcpConn,
+    session: RtmpSession,
 ): void {
     if (message.payload.length < 4) {
         console.error(
@@ -393,17 +490,20 @@ function handleWindowAcknowledgementSize(
 
     console.log(`Window Acknowledgement Size set to: ${windowSize}`);
 
-    // You might need to store this value to determine when to send acknowledgements
+    // acknowledge at the window the peer asked for
+    if (windowSize > 0) {
+        session.flow.ackWindow = windowSize;
+    }
 }
 
 /**
  * Handles Set Peer Bandwidth message (type 6)
  * Sets the bandwidth limit for the connection
  */
-function handleSetPeerBandwidth(
+async function handleSetPeerBandwidth(
     message: Message,
-    conn: Deno.TcpConn,
-): void {
+    session: RtmpSession,
+): Promise<void> {
     if (message.payload.length < 5) {
         console.error(
             "Invalid Set Peer Bandwidth message: payload too short",
@@ -422,15 +522,18 @@ function handleSetPeerBandwidth(
         `Set Peer Bandwidth: size=${windowSize}, type=${limitType}`,
     );
 
-    // Respond with a Window Acknowledgement Size message
-    sendWindowAcknowledgementSize(conn, windowSize);
+    // Respond with a Window Acknowledgement Size message if the window changed
+    const announce = session.flow.setPeerBandwidth(windowSize >>> 0, limitType);
+    if (announce !== undefined) {
+        await sendWindowAcknowledgementSize(session.writer, announce);
+    }
 }
 
 /**
  * Sends a Window Acknowledgement Size message
  */
-async function sendWindowAcknowledgementSize(
-    conn: Deno.TcpConn,
+export async function sendWindowAcknowledgementSize(
+    writer: ChunkWriter,
     windowSize: number,
 ): Promise<void> {
     // Create a message with type 5 (Window Acknowledgement Size)
@@ -442,7 +545,7 @@ async function sendWindowAcknowledgementSize(
 
     // Send the message using the chunk utility
     await sendControlMessage(
-        conn,
+        writer,
         MessageType.WINDOW_ACKNOWLEDGEMENT_SIZE,
         payload,
     );
@@ -450,11 +553,26 @@ async function sendWindowAcknowledgementSize(
     console.log(`Sent Window Acknowledgement Size: ${windowSize}`);
 }
 
+/**
+ * Sends an Acknowledgement of the bytes received so far
+ */
+export async function sendAcknowledgement(
+    writer: ChunkWriter,
+    sequenceNumber: number,
+): Promise<void> {
+    const payload = new Uint8Array(4);
+    new DataView(payload.buffer).setUint32(0, sequenceNumber);
+
+    await sendControlMessage(writer, MessageType.ACKNOWLEDGEMENT, payload);
+
+    console.log(`Sent Acknowledgement: ${sequenceNumber}`);
+}
+
 /**
  * Sends a Set Peer Bandwidth message
  */
 async function sendSetPeerBandwidth(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     windowSize: number,
     limitType: number,
 ): Promise<void> {
@@ -467,7 +585,7 @@ async function sendSetPeerBandwidth(
     payload[4] = limitType; // 0: Hard, 1: Soft, 2: Dynamic
 
     // Send the message using the chunk utility
-    await sendControlMessage(conn, MessageType.SET_PEER_BANDWIDTH, payload);
+    await sendControlMessage(writer, MessageType.SET_PEER_BANDWIDTH, payload);
 
     console.log(
         `Sent Set Peer Bandwidth: ${windowSize}, type: ${limitType}`,
@@ -478,7 +596,7 @@ async function sendSetPeerBandwidth(
  * Sends a Stream Begin user control message
  */
 async function sendStreamBegin(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     streamId: number,
 ): Promise<void> {
     // Create a User Control message with event type 0 (Stream Begin)
@@ -492,7 +610,7 @@ async function sendStreamBegin(
 
     // Send the message using the chunk utility
     const { sendControlMessage } = await import("./chunk.ts");
-    await sendControlMessage(conn, MessageType.USER_CONTROL, payload);
+    await sendControlMessage(writer, MessageType.USER_CONTROL, payload);
 
     console.log(`Sent Stream Begin for stream ID: ${streamId}`);
 }
@@ -503,7 +621,7 @@ async function sendStreamBegin(
  */
 function handleUserControlMessage(
     message: Message,
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
 ): void {
     if (message.payload.length < 2) {
         console.error("Invalid User Control message: payload too short");
@@ -541,7 +659,7 @@ function handleUserControlMessage(
 
         case 6: // Ping Request
             // Respond with Ping Response
-            sendPingResponse(conn, message.payload.slice(2));
+            sendPingResponse(writer, message.payload.slice(2));
             break;
 
         case 7: // Ping Response
@@ -557,7 +675,7 @@ function handleUserControlMessage(
  * Sends a Ping Response message
  */
 async function sendPingResponse(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     timestampData: Uint8Array,
 ): Promise<void> {
     // Create a ping response user control message (event type 7)
@@ -568,7 +686,7 @@ async function sendPingResponse(
 
     // Send the message using the chunk utility
     const { sendControlMessage } = await import("./chunk.ts");
-    await sendControlMessage(conn, MessageType.USER_CONTROL, payload);
+    await sendControlMessage(writer, MessageType.USER_CONTROL, payload);
 
     console.log("Sent Ping Response");
 }
@@ -579,13 +697,14 @@ async function sendPingResponse(
  */
 async function handleCommandMessage(
     message: Message,
-    conn: Deno.TcpConn,
+    session: RtmpSession,
 ): Promise<void> {
     console.log("Command message received");
+    const { writer } = session;
 
     // Parse the command message payload
     const { commandName, transactionId, commandObject, additionalParams } =
-        parseAMF0Command(message.payload);
+        parseCommandMessage(message);
 
     console.log(`Command: ${commandName}, TransactionID: ${transactionId}`);
     console.log("Command object:", commandObject);
@@ -594,16 +713,16 @@ async function handleCommandMessage(
     // Handle different commands
     switch (commandName) {
         case "connect":
-            await handleConnectCommand(conn, transactionId, commandObject);
+            await handleConnectCommand(session, transactionId, commandObject);
             break;
 
         case "createStream":
-            await handleCreateStreamCommand(conn, transactionId);
+            await handleCreateStreamCommand(writer, transactionId);
             break;
 
         case "play":
             await handlePlayCommand(
-                conn,
+                session,
                 transactionId,
                 commandObject,
                 additionalParams[0] as string,
@@ -612,19 +731,23 @@ async function handleCommandMessage(
 
         case "deleteStream":
             await handleDeleteStreamCommand(
-                conn,
+                session,
                 transactionId,
                 additionalParams[0] as number,
             );
             break;
 
         case "closeStream":
-            await handleCloseStreamCommand(conn);
+            await handleCloseStreamCommand(session);
+            break;
+
+        case "FCUnpublish":
+            session.stop();
             break;
 
         case "releaseStream":
             await handleReleaseStreamCommand(
-                conn,
+                writer,
                 transactionId,
                 additionalParams[0] as string,
             );
@@ -632,7 +755,7 @@ async function handleCommandMessage(
 
         case "FCPublish":
             await handleFCPublishCommand(
-                conn,
+                writer,
                 transactionId,
                 additionalParams[0] as string,
             );
@@ -640,7 +763,7 @@ async function handleCommandMessage(
 
         case "publish":
             await handlePublishCommand(
-                conn,
+                session,
                 transactionId,
                 additionalParams[0] as string,
                 additionalParams[1] as string,
@@ -657,11 +780,13 @@ async function handleCommandMessage(
  * Client requests to connect to the application
  */
 async function handleConnectCommand(
-    conn: Deno.TcpConn,
+    session: RtmpSession,
     transactionId: number,
     commandObject: Record<string, any>,
 ): Promise<void> {
     console.log("Handling connect command");
+    const { writer } = session;
+    [session.app, session.connectQuery] = splitQuery(commandObject.app || "");
     console.log(
         `[CONNECT] Processing connect command with transaction ID: ${transactionId}`,
     );
@@ -671,22 +796,49 @@ async function handleConnectCommand(
         }`,
     );
 
+    const denied = await session.events.ask("connect", session, commandObject);
+    if (denied) {
+        console.warn(
+            `[CONNECT] Rejected session ${session.id}: ${denied.message}`,
+        );
+        await sendCommandAMF0(writer, "_error", transactionId, null, {
+            level: "error",
+            code: "NetConnection.Connect.Rejected",
+            description: denied.message,
+        });
+        session.close();
+        return;
+    }
+
     // Send Window Acknowledgement Size
-    await sendWindowAcknowledgementSize(conn, 2500000);
+    await sendWindowAcknowledgementSize(writer, DEFAULT_WINDOW_SIZE);
+    session.flow.announcedWindow = DEFAULT_WINDOW_SIZE;
 
     // Send Set Peer Bandwidth
-    await sendSetPeerBandwidth(conn, 2500000, 2);
+    await sendSetPeerBandwidth(writer, DEFAULT_WINDOW_SIZE, LimitType.Dynamic);
 
     // Send Stream Begin user control message
-    await sendStreamBegin(conn, 0);
+    await sendStreamBegin(writer, 0);
+
+    // Everything from the _result on is written in larger chunks
+    await writer.setChunkSize(OUTBOUND_CHUNK_SIZE);
 
     // Send _result command
-    const resultCommandObj = {
+    const resultCommandObj: Record<string, AMF0Value> = {
         fmsVer: "FMS/3,0,1,123",
         capabilities: 31,
         mode: 1,
     };
 
+    // Enhanced RTMP, answer with the FourCCs we relay out of those offered
+    session.fourCcList = negotiateFourCcList(commandObject);
+    if (session.fourCcList) {
+        console.log(
+            `[CONNECT] Negotiated FourCCs: ${session.fourCcList.join(", ")}`,
+        );
+        resultCommandObj.fourCcList = session.fourCcList;
+    }
+
     const infoObj = {
         level: "status",
         code: "NetConnection.Connect.Success",
@@ -697,7 +849,7 @@ async function handleConnectCommand(
     console.log("------------");
 
     await sendCommandAMF0(
-        conn,
+        writer,
         "_result",
         transactionId,
         resultCommandObj,
@@ -712,7 +864,7 @@ async function handleConnectCommand(
  * Client requests to create a new stream
  */
 async function handleCreateStreamCommand(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     transactionId: number,
 ): Promise<void> {
     console.log("Handling createStream command");
@@ -726,7 +878,7 @@ async function handleCreateStreamCommand(
         const streamId = 1;
 
         await sendCommandAMF0(
-            conn,
+            writer,
             "_result",
             transactionId,
             null,
@@ -746,19 +898,32 @@ async function handleCreateStreamCommand(
  * Client requests to play a stream
  */
 async function handlePlayCommand(
-    conn: Deno.TcpConn,
+    session: RtmpSession,
     transactionId: number,
     commandObject: Record<string, any>,
     streamName: string,
 ): Promise<void> {
     console.log(`Handling play command for stream: ${streamName}`);
-
-    // Import AMF0 encoding utilities
-    const { encodeAMF0Command } = await import("./amf.ts");
+    const { writer } = session;
 
     try {
+        const denied = await session.events.ask("play", session, streamName);
+        if (denied) {
+            console.warn(
+                `[PLAY] Rejected session ${session.id}: ${denied.message}`,
+            );
+            await sendCommandAMF0(writer, "onStatus", 0, null, {
+                level: "error",
+                code: "NetStream.Play.Failed",
+                description: denied.message,
+                details: streamName,
+            });
+            session.close();
+            return;
+        }
+
         // Send Stream Begin user control message
-        await sendStreamBegin(conn, 1);
+        await sendStreamBegin(writer, 1);
 
         // Send onStatus command for NetStream.Play.Start
         const infoObj = {
@@ -768,9 +933,16 @@ async function handlePlayCommand(
             details: streamName,
         };
 
-        await sendCommandAMF0(conn, "onStatus", 0, null, infoObj);
+        await sendCommandAMF0(writer, "onStatus", 0, null, infoObj);
 
-        console.log(`Play command response sent for stream: ${streamName}`);
+        // Receive the live stream published under the same name,
+        // now or once a publisher shows up
+        const stream = session.play(streamName);
+        console.log(
+            `Play command response sent for stream: ${stream.name}, publisher: ${
+                stream.publisher ? stream.publisher.id : "none yet"
+            }`,
+        );
     } catch (error) {
         console.error("Error handling play command:", error);
     }
@@ -781,13 +953,13 @@ async function handlePlayCommand(
  * Client requests to delete a stream
  */
 async function handleDeleteStreamCommand(
-    conn: Deno.TcpConn,
+    session: RtmpSession,
     transactionId: number,
     streamId: number,
 ): Promise<void> {
     console.log(`Handling deleteStream command for stream ID: ${streamId}`);
 
-    // For now, we'll just log it. In a real implementation, you'd clean up resources.
+    session.stop();
     console.log(`Stream ${streamId} deleted`);
 }
 
@@ -796,11 +968,11 @@ async function handleDeleteStreamCommand(
  * Client requests to close a stream
  */
 async function handleCloseStreamCommand(
-    conn: Deno.TcpConn,
+    session: RtmpSession,
 ): Promise<void> {
     console.log("Handling closeStream command");
 
-    // For now, we'll just log it. In a real implementation, you'd clean up resources.
+    session.stop();
     console.log("Stream closed");
 }
 
@@ -809,14 +981,14 @@ async function handleCloseStreamCommand(
  * Client releases a publishing stream name
  */
 async function handleReleaseStreamCommand(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     transactionId: number,
     streamName: string,
 ): Promise<void> {
     console.log(`Handling releaseStream command for stream: ${streamName}`);
 
     // Send a _result command
-    await sendCommandAMF0(conn, "_result", transactionId, null, null);
+    await sendCommandAMF0(writer, "_result", transactionId, null, null);
 
     console.log(`Stream ${streamName} released`);
 }
@@ -826,14 +998,14 @@ async function handleReleaseStreamCommand(
  * Client sends this before publishing
  */
 async function handleFCPublishCommand(
-    conn: Deno.TcpConn,
+    writer: ChunkWriter,
     transactionId: number,
     streamName: string,
 ): Promise<void> {
     console.log(`Handling FCPublish command for stream: ${streamName}`);
 
     // Send a _result command
-    await sendCommandAMF0(conn, "_result", transactionId, null, null);
+    await sendCommandAMF0(writer, "_result", transactionId, null, null);
 
     console.log(`FCPublish for stream ${streamName} acknowledged`);
 }
@@ -843,7 +1015,7 @@ async function handleFCPublishCommand(
  * Client requests to publish a stream
  */
 async function handlePublishCommand(
-    conn: Deno.TcpConn,
+    session: RtmpSession,
     transactionId: number,
     streamName: string,
     publishType: string,
@@ -851,12 +1023,49 @@ async function handlePublishCommand(
     console.log(
         `Handling publish command for stream: ${streamName}, type: ${publishType}`,
     );
-
-    // Import AMF0 encoding utilities
+    const { writer } = session;
 
     try {
+        const denied = await session.handlers.authorizePublish?.(
+            session,
+            streamName,
+        ) ?? await session.events.ask("publish", session, streamName);
+        if (denied) {
+            console.warn(
+                `[PUBLISH] Rejected session ${session.id}: ${denied.message}`,
+            );
+            const infoObj = {
+                level: "error",
+                code: "NetStream.Publish.BadName",
+                description: denied.message,
+                details: streamName,
+            };
+            await sendCommandAMF0(writer, "onStatus", 0, null, infoObj);
+            await sendCommandAMF0(
+                writer,
+                "_error",
+                transactionId,
+                null,
+                infoObj,
+            );
+            session.close();
+            return;
+        }
+
+        const stream = session.publish(streamName);
+        if (stream instanceof Error) {
+            console.warn(stream.message);
+            await sendCommandAMF0(writer, "onStatus", 0, null, {
+                level: "error",
+                code: "NetStream.Publish.BadName",
+                description: stream.message,
+                details: streamName,
+            });
+            return;
+        }
+
         // Send Stream Begin user control message
-        await sendStreamBegin(conn, 1);
+        await sendStreamBegin(writer, 1);
 
         // Send onStatus command for NetStream.Publish.Start
         const infoObj = {
@@ -866,7 +1075,7 @@ async function handlePublishCommand(
             details: streamName,
         };
 
-        await sendCommandAMF0(conn, "onStatus", 0, null, infoObj);
+        await sendCommandAMF0(writer, "onStatus", 0, null, infoObj);
 
         console.log(
             `Publish command response sent for stream: ${streamName}`,
@@ -879,8 +1088,8 @@ async function handlePublishCommand(
 /**
  * Send an AMF0 command
  */
-async function sendCommandAMF0(
-    conn: Deno.TcpConn,
+export async function sendCommandAMF0(
+    writer: ChunkWriter,
     commandName: string,
     transactionId: number,
     commandObject: Record<string, any> | null,
@@ -897,12 +1106,10 @@ async function sendCommandAMF0(
     );
 
     // Send the command message using the chunk utility
-    await sendMessage(
-        conn,
+    await writer.writeMessage(
         { type: MessageType.COMMAND_AMF0, payload },
         3, // Chunk stream ID 3 for commands
         1, // Message stream ID 1
-        4096, // Larger chunk size for commands
     );
 
     console.log(
@@ -914,29 +1121,177 @@ async function sendCommandAMF0(
  * Handles Data Message (type 18 for AMF0, type 15 for AMF3)
  * Contains metadata information
  */
-function handleDataMessage(message: Message): void {
+function handleDataMessage(message: Message, session: RtmpSession): void {
     console.log("Data message received");
 
-    // In a real implementation, you would parse the AMF data
-    // and extract metadata like video dimensions, framerate, etc.
+    if (session.role != "publisher") {
+        return;
+    }
+    message = toAMF0DataMessage(message);
+
+    const metadata = parseMetadata(message.payload);
+    if (metadata) {
+        message = handleMetadata(message, metadata, session);
+    }
+    session.stream?.cache.add(message);
+    session.stream?.broadcast(message);
+    session.handlers.onMediaMessage?.(session, message);
+}
+
+/**
+ * Attaches the publisher's onMetaData to its session, the onMetadata
+ * handler may rewrite what subscribers and destinations receive
+ */
+function handleMetadata(
+    message: Message,
+    metadata: StreamMetadata,
+    session: RtmpSession,
+): Message {
+    if (metadataChanged(session.metadata, metadata)) {
+        console.log(
+            `[METADATA] Session ${session.id}: ${metadata.width}x${metadata.height} @ ${metadata.frameRate}fps, video ${metadata.videoCodecId} ${metadata.videoDataRate}kbps, audio ${metadata.audioCodecId} ${metadata.audioDataRate}kbps, encoder ${metadata.encoder}`,
+        );
+    }
+    session.metadata = metadata;
+    session.events.emit("metadata", session, metadata);
+
+    const rewritten = session.handlers.onMetadata?.(session, metadata);
+    if (!rewritten) {
+        return message;
+    }
+    const payload = encodeMetadata(rewritten);
+    return {
+        header: { ...message.header, payload_length: payload.length },
+        payload,
+    };
+}
+
+/**
+ * Parses a COMMAND_AMF0 or COMMAND_AMF3 message
+ *
+ * AMF3 commands start with a format byte, 0 means the values are AMF0
+ * encoded and switch to AMF3 through AVMPLUS_OBJECT markers.
+ */
+export function parseCommandMessage(
+    message: Message,
+): ReturnType<typeof parseAMF0Command> {
+    const { payload } = message;
+    if (message.header.type != MessageType.COMMAND_AMF3) {
+        return parseAMF0Command(payload);
+    }
+    if (payload[0] == 0) {
+        return parseAMF0Command(payload.subarray(1));
+    }
+    return parseAMF3Command(payload);
+}
+
+/**
+ * Turns a DATA_AMF3 message into the DATA_AMF0 message players and
+ * destinations understand
+ */
+export function toAMF0DataMessage(message: Message): Message {
+    if (message.header.type != MessageType.DATA_AMF3) {
+        return message;
+    }
+    let { payload } = message;
+    if (payload[0] == 0) {
+        payload = payload.subarray(1);
+    } else {
+        // re-encode the AMF3 values, those without an AMF0 equivalent
+        // stay AMF3 behind an AVMPLUS_OBJECT marker
+        const decoder = new AMF3Decoder(payload);
+        const values: Uint8Array[] = [];
+        while (decoder.position < payload.length) {
+            values.push(encodeAMF0Value(decoder.read()));
+        }
+        payload = concat(values);
+    }
+    return {
+        header: {
+            ...message.header,
+            type: MessageType.DATA_AMF0,
+            payload_length: payload.length,
+        },
+        payload,
+    };
+}
+
+/**
+ * Removes the @setDataFrame a publisher wraps onMetaData in,
+ * the way it has to reach players
+ */
+export function stripSetDataFrame(payload: Uint8Array): Uint8Array {
+    if (payload[0] != AMF0DataType.STRING) {
+        return payload;
+    }
+    const { value, newPosition } = parseAMF0Value(payload, 0);
+    return value == "@setDataFrame" ? payload.subarray(newPosition) : payload;
 }
 
 /**
  * Handles Audio Message (type 8)
  * Contains audio data
  */
-function handleAudioMessage(message: Message): void {
+function handleAudioMessage(message: Message, session: RtmpSession): void {
     console.log(`Audio data received: ${message.payload.length} bytes`);
 
-    // Process or forward audio data
+    if (session.role != "publisher") {
+        return;
+    }
+    const tag = parseAudioTag(message.payload);
+    if (tag instanceof Error) {
+        console.warn(`[MEDIA] Session ${session.id}: ${tag.message}`);
+    } else if (isAacSequenceHeader(tag)) {
+        const config = parseAudioSpecificConfig(tag.data);
+        if (config instanceof Error) {
+            console.warn(`[MEDIA] Session ${session.id}: ${config.message}`);
+        } else {
+            console.log(
+                `[MEDIA] Session ${session.id}: audio ${config.codec} ${config.sampleRate}Hz ${config.channels}ch`,
+            );
+            session.audioConfig = config;
+        }
+    }
+    session.media.record(message);
+    session.stream?.cache.add(message);
+    session.stream?.broadcast(message);
+    session.handlers.onMediaMessage?.(session, message);
+    session.events.emit("audio", session, message);
 }
 
 /**
  * Handles Video Message (type 9)
  * Contains video data
  */
-function handleVideoMessage(message: Message): void {
+function handleVideoMessage(message: Message, session: RtmpSession): void {
     console.log(`Video data received: ${message.payload.length} bytes`);
 
-    // Process or forward video data
+    if (session.role != "publisher") {
+        return;
+    }
+    const tag = parseVideoTag(message.payload);
+    if (tag instanceof Error) {
+        console.warn(`[MEDIA] Session ${session.id}: ${tag.message}`);
+    } else if (isAvcSequenceHeader(tag)) {
+        const config = parseAvcDecoderConfigurationRecord(tag.data);
+        if (config instanceof Error) {
+            console.warn(`[MEDIA] Session ${session.id}: ${config.message}`);
+        } else {
+            console.log(
+                `[MEDIA] Session ${session.id}: video ${config.codec} ${config.width}x${config.height}`,
+            );
+            session.videoConfig = config;
+        }
+    } else if (isVideoSequenceHeader(tag)) {
+        console.log(
+            `[MEDIA] Session ${session.id}: video ${
+                tag.codecId ?? tag.tracks?.map((track) => track.codecId)
+            }`,
+        );
+    }
+    session.media.record(message);
+    session.stream?.cache.add(message);
+    session.stream?.broadcast(message);
+    session.handlers.onMediaMessage?.(session, message);
+    session.events.emit("video", session, message);
 }
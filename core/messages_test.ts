@@ -0,0 +1,158 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+    Message,
+    MessageLimits,
+    messagesFromChunks,
+    MessageType,
+    PendingMessages,
+} from "./messages.ts";
+import { Chunk, FMT } from "./rtmp.ts";
+
+/**
+ * A chunk as chunkStream yields it, its header resolved against the
+ * chunk stream's state
+ */
+function chunk(
+    chunkStreamId: number,
+    type: FMT,
+    messageLength: number,
+    dataLength: number,
+): Chunk {
+    return {
+        header: {
+            chunk_stream_id: chunkStreamId,
+            message_header: {
+                type,
+                timestamp: 0,
+                message_length: messageLength,
+                message_type_id: MessageType.VIDEO,
+                message_stream_id: 1,
+            },
+            extended_timestamp: undefined,
+        },
+        data: new Uint8Array(dataLength).fill(chunkStreamId),
+    };
+}
+
+/**
+ * The messages assembled from the chunks, and the error that ended it
+ */
+async function receive(
+    chunks: Iterable<Chunk | (() => void)>,
+    pending: PendingMessages,
+): Promise<[Message[], Error | undefined]> {
+    async function* feed() {
+        for (const item of chunks) {
+            if (typeof item == "function") {
+                // what the session does between two chunks
+                item();
+            } else {
+                yield item;
+            }
+        }
+    }
+    const messages: Message[] = [];
+    try {
+        for await (const message of messagesFromChunks(feed(), pending)) {
+            messages.push(message);
+        }
+    } catch (e) {
+        return [messages, e as Error];
+    }
+    return [messages, undefined];
+}
+
+function limited(limits: MessageLimits) {
+    return new PendingMessages(limits);
+}
+
+Deno.test("messagesFromChunks assembles interleaved messages", async () => {
+    const pending = limited({});
+    const [messages, err] = await receive([
+        chunk(6, FMT.Type0, 300, 128),
+        chunk(4, FMT.Type0, 10, 10),
+        chunk(6, FMT.Type3, 300, 128),
+        chunk(6, FMT.Type3, 300, 44),
+    ], pending);
+    assertEquals(err, undefined);
+    assertEquals(messages.map((m) => m.payload.length), [10, 300]);
+    assert(messages[1].payload.every((b) => b == 6));
+    // nothing is held once the messages are complete
+    assertEquals(pending.size, 0);
+});
+
+Deno.test("messagesFromChunks rejects a message over maxMessageSize", async () => {
+    const [messages, err] = await receive([
+        chunk(4, FMT.Type0, 10, 10),
+        chunk(6, FMT.Type0, 1001, 128),
+    ], limited({ maxMessageSize: 1000 }));
+    assertEquals(messages.length, 1);
+    assert(err instanceof Error);
+    assertEquals(
+        err.message,
+        "message of 1001 bytes on chunk stream 6 exceeds the limit of 1000",
+    );
+
+    // a message of exactly the limit is fine
+    const [exact] = await receive([
+        chunk(6, FMT.Type0, 1000, 1000),
+    ], limited({ maxMessageSize: 1000 }));
+    assertEquals(exact.length, 1);
+
+    // 8 MB by default
+    const [, tooLarge] = await receive([
+        chunk(6, FMT.Type0, 8 * 1024 * 1024 + 1, 128),
+    ], limited({}));
+    assert(tooLarge instanceof Error);
+});
+
+Deno.test("messagesFromChunks rejects incomplete messages over maxPendingSize", async () => {
+    const pending = limited({ maxPendingSize: 300 });
+    // each message is allowed, together they are not
+    const [messages, err] = await receive([
+        chunk(4, FMT.Type0, 200, 128),
+        chunk(6, FMT.Type0, 200, 128),
+        chunk(8, FMT.Type0, 200, 128),
+    ], pending);
+    assertEquals(messages, []);
+    assert(err instanceof Error);
+    assertEquals(
+        err.message,
+        "incomplete messages of 384 bytes exceed the limit of 300",
+    );
+
+    // complete messages do not count
+    const [complete, ok] = await receive([
+        chunk(4, FMT.Type0, 200, 128),
+        chunk(4, FMT.Type3, 200, 72),
+        chunk(6, FMT.Type0, 200, 128),
+        chunk(6, FMT.Type3, 200, 72),
+    ], limited({ maxPendingSize: 300 }));
+    assertEquals(ok, undefined);
+    assertEquals(complete.length, 2);
+});
+
+Deno.test("PendingMessages.discard drops an aborted message", async () => {
+    const pending = limited({ maxPendingSize: 300 });
+    const [messages, err] = await receive([
+        chunk(6, FMT.Type0, 1000, 128),
+        chunk(6, FMT.Type3, 1000, 128),
+        // an Abort Message for chunk stream 6
+        () => {
+            pending.discard(6);
+            assertEquals(pending.size, 0);
+        },
+        // the budget is free again
+        chunk(4, FMT.Type0, 250, 128),
+        chunk(4, FMT.Type3, 250, 122),
+        // and the next message on 6 starts afresh
+        chunk(6, FMT.Type0, 20, 20),
+    ], pending);
+    assertEquals(err, undefined);
+    assertEquals(messages.map((m) => m.payload.length), [250, 20]);
+    assertEquals(pending.size, 0);
+
+    // aborting a chunk stream without a message is a no-op
+    pending.discard(9);
+    assertEquals(pending.size, 0);
+});
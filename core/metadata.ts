@@ -0,0 +1,124 @@
+import { concat } from "@std/bytes/concat";
+import {
+    AMF0Value,
+    ECMAArray,
+    encodeAMF0Value,
+    parseAMF0Value,
+} from "./amf.ts";
+
+/**
+ * The onMetaData a publisher sends, with the usual properties typed
+ *
+ * https://veovera.org/docs/legacy/video-file-format-v10-1-spec.pdf E.5
+ */
+export type StreamMetadata = {
+    width?: number;
+    height?: number;
+    frameRate?: number;
+    // 7 for AVC, or a FourCC like "hvc1" from enhanced RTMP encoders
+    videoCodecId?: number | string;
+    audioCodecId?: number | string;
+    // kilobits per second
+    videoDataRate?: number;
+    audioDataRate?: number;
+    audioSampleRate?: number;
+    stereo?: boolean;
+    encoder?: string;
+    // every property as received, including the typed ones
+    properties: Record<string, AMF0Value>;
+};
+
+// StreamMetadata fields and the onMetaData properties they come from
+const PROPERTY_NAMES = {
+    width: "width",
+    height: "height",
+    frameRate: "framerate",
+    videoCodecId: "videocodecid",
+    audioCodecId: "audiocodecid",
+    videoDataRate: "videodatarate",
+    audioDataRate: "audiodatarate",
+    audioSampleRate: "audiosamplerate",
+    stereo: "stereo",
+    encoder: "encoder",
+} as const;
+
+/**
+ * Decodes "@setDataFrame", "onMetaData", {...} or "onMetaData", {...}
+ * Returns undefined for other data messages
+ */
+export function parseMetadata(payload: Uint8Array): StreamMetadata | undefined {
+    let { value, newPosition } = parseAMF0Value(payload, 0);
+    if (value == "@setDataFrame") {
+        ({ value, newPosition } = parseAMF0Value(payload, newPosition));
+    }
+    if (value != "onMetaData" || newPosition >= payload.length) {
+        return;
+    }
+
+    const { value: properties } = parseAMF0Value(payload, newPosition);
+    if (
+        typeof properties != "object" || properties == null ||
+        Array.isArray(properties)
+    ) {
+        return;
+    }
+    const props = properties as Record<string, AMF0Value>;
+
+    const number = (name: string) =>
+        typeof props[name] == "number" ? props[name] as number : undefined;
+    const codec = (name: string) =>
+        typeof props[name] == "number" || typeof props[name] == "string"
+            ? props[name] as number | string
+            : undefined;
+
+    return {
+        width: number(PROPERTY_NAMES.width),
+        height: number(PROPERTY_NAMES.height),
+        frameRate: number(PROPERTY_NAMES.frameRate),
+        videoCodecId: codec(PROPERTY_NAMES.videoCodecId),
+        audioCodecId: codec(PROPERTY_NAMES.audioCodecId),
+        videoDataRate: number(PROPERTY_NAMES.videoDataRate),
+        audioDataRate: number(PROPERTY_NAMES.audioDataRate),
+        audioSampleRate: number(PROPERTY_NAMES.audioSampleRate),
+        stereo: typeof props.stereo == "boolean" ? props.stereo : undefined,
+        encoder: typeof props.encoder == "string" ? props.encoder : undefined,
+        properties: props,
+    };
+}
+
+/**
+ * Encodes "@setDataFrame", "onMetaData", ECMA array, the typed fields
+ * take precedence over the same properties
+ */
+export function encodeMetadata(metadata: StreamMetadata): Uint8Array {
+    const properties = new ECMAArray(metadata.properties);
+    for (const [field, name] of Object.entries(PROPERTY_NAMES)) {
+        const value = metadata[field as keyof typeof PROPERTY_NAMES];
+        if (value !== undefined) {
+            properties[name] = value;
+        }
+    }
+
+    const parts = [
+        encodeAMF0Value("@setDataFrame"),
+        encodeAMF0Value("onMetaData"),
+        encodeAMF0Value(properties),
+    ];
+    return concat(parts);
+}
+
+/**
+ * Whether the fields a player cares about differ
+ */
+export function metadataChanged(
+    previous: StreamMetadata | undefined,
+    next: StreamMetadata,
+): boolean {
+    if (!previous) {
+        return true;
+    }
+    return Object.keys(PROPERTY_NAMES).some((field) =>
+        previous[field as keyof typeof PROPERTY_NAMES] !=
+            next[field as keyof typeof PROPERTY_NAMES]
+    );
+}
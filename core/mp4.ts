@@ -0,0 +1,308 @@
+import { concat } from "@std/bytes/concat";
+import { AacConfig, AvcConfig } from "./media.ts";
+
+/**
+ * Fragmented MP4, ISO/IEC 14496-12, with one H.264 and one AAC track the
+ * way Media Source Extensions take them: an initialization segment, then
+ * a moof and mdat per sample
+ *
+ * https://www.w3.org/TR/mse-byte-stream-format-isobmff/
+ */
+
+// both tracks count in milliseconds, like RTMP timestamps
+const TIMESCALE = 1000;
+export const VIDEO_TRACK_ID = 1;
+export const AUDIO_TRACK_ID = 2;
+
+// 8.8.3.1 sample_flags: sample_depends_on and sample_is_non_sync_sample
+const SYNC_SAMPLE = 0x02000000;
+const NON_SYNC_SAMPLE = 0x01010000;
+
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+export type Mp4Video = {
+    config: AvcConfig;
+    // the payload of the AVC sequence header, written as the avcC box
+    decoderConfigurationRecord: Uint8Array;
+};
+
+export type Mp4Audio = {
+    config: AacConfig;
+    audioSpecificConfig: Uint8Array;
+};
+
+export type Mp4Sample = {
+    dts: number; // milliseconds from the start of the stream
+    duration: number; // milliseconds
+    compositionTime: number; // milliseconds from dts to pts
+    keyframe: boolean;
+    data: Uint8Array;
+};
+
+/**
+ * Writes the initialization segment and the fragments of one stream,
+ * numbering the fragments
+ */
+export class Mp4Muxer {
+    private sequence = 0;
+
+    constructor(readonly video?: Mp4Video, readonly audio?: Mp4Audio) {}
+
+    /**
+     * The MIME type with RFC 6381 codecs, for MediaSource.addSourceBuffer
+     */
+    get mimeType(): string {
+        const codecs = [this.video?.config.codec, this.audio?.config.codec]
+            .filter((codec) => codec !== undefined);
+        return `video/mp4; codecs="${codecs.join(",")}"`;
+    }
+
+    /**
+     * ftyp and moov, without samples
+     */
+    init(): Uint8Array {
+        const traks: Uint8Array[] = [];
+        const trexs: Uint8Array[] = [];
+        for (const trackId of [VIDEO_TRACK_ID, AUDIO_TRACK_ID]) {
+            const trak = this.trak(trackId);
+            if (trak) {
+                traks.push(trak);
+                trexs.push(fullBox("trex", 0, 0, [
+                    ...u32(trackId),
+                    ...u32(1), // default_sample_description_index
+                    ...u32(0),
+                    ...u32(0),
+                    ...u32(0),
+                ]));
+            }
+        }
+        return concat([
+            box("ftyp", ascii("isom"), u32(0x200), ascii("isomiso6mp41")),
+            box(
+                "moov",
+                fullBox("mvhd", 0, 0, [
+                    ...u32(0), // creation_time
+                    ...u32(0), // modification_time
+                    ...u32(TIMESCALE),
+                    ...u32(0), // duration, unknown for live streams
+                    ...u32(0x00010000), // rate 1.0
+                    ...u16(0x0100), // volume 1.0
+                    ...new Array(10).fill(0),
+                    ...MATRIX.flatMap(u32),
+                    ...new Array(24).fill(0), // pre_defined
+                    ...u32(AUDIO_TRACK_ID + 1), // next_track_ID
+                ]),
+                ...traks,
+                box("mvex", ...trexs),
+            ),
+        ]);
+    }
+
+    /**
+     * A moof and mdat holding one sample of the track
+     */
+    fragment(trackId: number, sample: Mp4Sample): Uint8Array {
+        const sequence = ++this.sequence;
+        const moof = (dataOffset: number) =>
+            box(
+                "moof",
+                fullBox("mfhd", 0, 0, u32(sequence)),
+                box(
+                    "traf",
+                    // default-base-is-moof
+                    fullBox("tfhd", 0, 0x020000, u32(trackId)),
+                    fullBox("tfdt", 1, 0, u64(sample.dts)),
+                    // data-offset, sample-duration, -size, -flags and
+                    // signed composition time offsets
+                    fullBox("trun", 1, 0x000f01, [
+                        ...u32(1), // sample_count
+                        ...u32(dataOffset),
+                        ...u32(sample.duration),
+                        ...u32(sample.data.length),
+                        ...u32(sample.keyframe ? SYNC_SAMPLE : NON_SYNC_SAMPLE),
+                        ...u32(sample.compositionTime),
+                    ]),
+                ),
+            );
+        // the sample follows the moof and the mdat header
+        const size = moof(0).length;
+        return concat([moof(size + 8), box("mdat", sample.data)]);
+    }
+
+    private trak(trackId: number): Uint8Array | undefined {
+        const video = trackId == VIDEO_TRACK_ID ? this.video : undefined;
+        const audio = trackId == AUDIO_TRACK_ID ? this.audio : undefined;
+        if (!video && !audio) {
+            return;
+        }
+
+        const sampleEntry = video
+            ? box(
+                "avc1",
+                new Array(6).fill(0),
+                u16(1), // data_reference_index
+                new Array(16).fill(0),
+                u16(video.config.width),
+                u16(video.config.height),
+                u32(0x00480000), // 72 dpi
+                u32(0x00480000),
+                u32(0),
+                u16(1), // frame_count
+                new Array(32).fill(0), // compressorname
+                u16(0x0018), // depth
+                u16(0xffff), // pre_defined -1
+                box("avcC", video.decoderConfigurationRecord),
+            )
+            : box(
+                "mp4a",
+                new Array(6).fill(0),
+                u16(1), // data_reference_index
+                new Array(8).fill(0),
+                u16(audio!.config.channels),
+                u16(16), // samplesize
+                u32(0),
+                u32((audio!.config.sampleRate & 0xffff) * 0x10000),
+                fullBox("esds", 0, 0, esDescriptor(audio!.audioSpecificConfig)),
+            );
+
+        const width = video?.config.width ?? 0;
+        const height = video?.config.height ?? 0;
+        return box(
+            "trak",
+            // track_enabled and track_in_movie
+            fullBox("tkhd", 0, 0x000003, [
+                ...u32(0),
+                ...u32(0),
+                ...u32(trackId),
+                ...u32(0),
+                ...u32(0), // duration
+                ...new Array(8).fill(0),
+                ...u16(0), // layer
+                ...u16(0), // alternate_group
+                ...u16(audio ? 0x0100 : 0), // volume
+                ...u16(0),
+                ...MATRIX.flatMap(u32),
+                ...u32(width * 0x10000),
+                ...u32(height * 0x10000),
+            ]),
+            box(
+                "mdia",
+                fullBox("mdhd", 0, 0, [
+                    ...u32(0),
+                    ...u32(0),
+                    ...u32(TIMESCALE),
+                    ...u32(0),
+                    ...u16(0x55c4), // "und"
+                    ...u16(0),
+                ]),
+                fullBox("hdlr", 0, 0, [
+                    ...u32(0),
+                    ...ascii(video ? "vide" : "soun"),
+                    ...new Array(12).fill(0),
+                    ...ascii(video ? "VideoHandler" : "SoundHandler"),
+                    0,
+                ]),
+                box(
+                    "minf",
+                    video
+                        ? fullBox("vmhd", 0, 1, new Array(8).fill(0))
+                        : fullBox("smhd", 0, 0, new Array(4).fill(0)),
+                    box(
+                        "dinf",
+                        fullBox(
+                            "dref",
+                            0,
+                            0,
+                            u32(1),
+                            // the samples are in this file
+                            fullBox("url ", 0, 1),
+                        ),
+                    ),
+                    box(
+                        "stbl",
+                        fullBox("stsd", 0, 0, u32(1), sampleEntry),
+                        fullBox("stts", 0, 0, u32(0)),
+                        fullBox("stsc", 0, 0, u32(0)),
+                        fullBox("stsz", 0, 0, u32(0), u32(0)),
+                        fullBox("stco", 0, 0, u32(0)),
+                    ),
+                ),
+            ),
+        );
+    }
+}
+
+/**
+ * ES_Descriptor with the DecoderConfigDescriptor of AAC, ISO/IEC 14496-1
+ * 7.2.6.5
+ */
+function esDescriptor(audioSpecificConfig: Uint8Array): number[] {
+    const decoderSpecificInfo = descriptor(0x05, [...audioSpecificConfig]);
+    const decoderConfig = descriptor(0x04, [
+        0x40, // objectTypeIndication, MPEG-4 audio
+        0x15, // streamType audio, upStream 0, reserved 1
+        ...new Array(3).fill(0), // bufferSizeDB
+        ...u32(0), // maxBitrate
+        ...u32(0), // avgBitrate
+        ...decoderSpecificInfo,
+    ]);
+    return descriptor(0x03, [
+        ...u16(AUDIO_TRACK_ID), // ES_ID
+        0x00, // no dependency, URL or OCR stream
+        ...decoderConfig,
+        ...descriptor(0x06, [0x02]), // SLConfigDescriptor, predefined MP4
+    ]);
+}
+
+/**
+ * A tag and its size in the 7 bit groups of expandable classes
+ */
+function descriptor(tag: number, body: number[]): number[] {
+    const size: number[] = [body.length & 0x7f];
+    for (let rest = body.length >> 7; rest > 0; rest >>= 7) {
+        size.unshift(0x80 | (rest & 0x7f));
+    }
+    return [tag, ...size, ...body];
+}
+
+function box(type: string, ...parts: (number[] | Uint8Array)[]): Uint8Array {
+    const body = concat(
+        parts.map((part) =>
+            part instanceof Uint8Array ? part : new Uint8Array(part)
+        ),
+    );
+    return concat([
+        new Uint8Array([...u32(8 + body.length), ...ascii(type)]),
+        body,
+    ]);
+}
+
+function fullBox(
+    type: string,
+    version: number,
+    flags: number,
+    ...parts: (number[] | Uint8Array)[]
+): Uint8Array {
+    return box(type, [version, ...u32(flags).slice(1)], ...parts);
+}
+
+function u16(value: number): number[] {
+    return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function u32(value: number): number[] {
+    return [
+        (value >>> 24) & 0xff,
+        (value >> 16) & 0xff,
+        (value >> 8) & 0xff,
+        value & 0xff,
+    ];
+}
+
+function u64(value: number): number[] {
+    return [...u32(Math.floor(value / 2 ** 32)), ...u32(value >>> 0)];
+}
+
+function ascii(text: string): number[] {
+    return [...text].map((char) => char.charCodeAt(0));
+}
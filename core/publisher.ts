@@ -0,0 +1,146 @@
+import { concat } from "@std/bytes/concat";
+import { AMF0DataType, encodeAMF0Value, parseAMF0Value } from "./amf.ts";
+import { RtmpClient } from "./client.ts";
+import { readFlvHeader, readFlvTags } from "./flv.ts";
+import { MessageType } from "./messages.ts";
+import { BufReader } from "./reader.ts";
+
+export type PublishFileOptions = {
+    // start over at the end of the file, until the connection drops
+    loop?: boolean;
+};
+
+/**
+ * Publishes an FLV file to rtmp://host[:port]/app/streamName, sending
+ * each tag when its timestamp comes due like ffmpeg -re -c copy does
+ */
+export async function publishFile(
+    filePath: string,
+    url: string,
+    options: PublishFileOptions = {},
+): Promise<Error | undefined> {
+    let client: RtmpClient;
+    try {
+        client = new RtmpClient(url);
+    } catch (e) {
+        return e as Error;
+    }
+    let err: Error | undefined;
+    try {
+        err = await client.connect() ?? await client.publish();
+    } catch (e) {
+        err = e as Error;
+    }
+    if (err) {
+        client.close();
+        return err;
+    }
+    let closed = false;
+    client.wait().then(() => closed = true);
+
+    const start = performance.now();
+    // the timestamps of each pass continue where the previous one ended
+    let offset = 0;
+    try {
+        do {
+            console.log(`[FILE] Publishing ${filePath} from ${offset}ms`);
+            const next = await publishPass(
+                client,
+                filePath,
+                start,
+                offset,
+                () => closed,
+            );
+            if (next instanceof Error) {
+                return new Error(`${filePath}: ${next.message}`);
+            }
+            offset = next;
+        } while (options.loop && !closed);
+    } catch (e) {
+        return e as Error;
+    } finally {
+        client.close();
+    }
+    if (closed) {
+        return new Error(`${url} closed the connection`);
+    }
+}
+
+/**
+ * Sends the tags of the file once, returns the timestamp the next pass
+ * starts at: one frame interval after the last tag
+ */
+async function publishPass(
+    client: RtmpClient,
+    filePath: string,
+    start: number,
+    offset: number,
+    closed: () => boolean,
+): Promise<number | Error> {
+    const file = await Deno.open(filePath);
+    try {
+        const reader = new BufReader(file);
+        const flags = await readFlvHeader(reader);
+        if (flags instanceof Error) {
+            return flags;
+        }
+
+        let first: number | undefined;
+        let last = offset;
+        let interval = 1;
+        for await (const tag of readFlvTags(reader)) {
+            if (closed()) {
+                break;
+            }
+            const { type } = tag;
+            if (
+                type != MessageType.AUDIO && type != MessageType.VIDEO &&
+                type != MessageType.DATA_AMF0
+            ) {
+                continue;
+            }
+
+            first ??= tag.timestamp;
+            const timestamp = offset + Math.max(0, tag.timestamp - first);
+            if (timestamp > last) {
+                interval = timestamp - last;
+            }
+            last = Math.max(last, timestamp);
+
+            const delay = start + timestamp - performance.now();
+            if (delay > 0) {
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+
+            const payload = type == MessageType.DATA_AMF0
+                ? withSetDataFrame(tag.data)
+                : tag.data;
+            await client.writeMessage({
+                header: {
+                    type,
+                    payload_length: payload.length,
+                    timestamp,
+                    message_stream_id: 0,
+                },
+                payload,
+            });
+        }
+        return last + interval;
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Files store onMetaData, a publisher sends it as @setDataFrame onMetaData
+ */
+function withSetDataFrame(data: Uint8Array): Uint8Array {
+    if (data[0] != AMF0DataType.STRING) {
+        return data;
+    }
+    const { value } = parseAMF0Value(data, 0);
+    if (value != "onMetaData") {
+        return data;
+    }
+    return concat([encodeAMF0Value("@setDataFrame"), data]);
+}
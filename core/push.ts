@@ -0,0 +1,198 @@
+import { RtmpClient } from "./client.ts";
+import {
+    isAudioSequenceHeader,
+    isKeyframe,
+    isVideoSequenceEnd,
+    isVideoSequenceHeader,
+    parseAudioTag,
+    parseVideoTag,
+} from "./media.ts";
+import { Message, MessageType } from "./messages.ts";
+import { MediaStats } from "./stats.ts";
+
+const MAX_QUEUED_MESSAGES = 1024;
+
+/**
+ * An outbound RTMP publish session, the TypeScript counterpart of lal's
+ * rtmp.PushSession used by the Go relay.
+ *
+ * Messages written before the session is ready are queued and flushed
+ * once the remote server has accepted the publish.
+ */
+export class PushSession {
+    private client: RtmpClient | undefined;
+    private queue: Message[] = [];
+    private ready = false;
+    private flushing = false;
+    private closed = false;
+    // frames are dropped until the next keyframe after the queue overflowed
+    private skipping = false;
+    private hasVideo = false;
+    private onClosed: () => void = () => {};
+    private readonly done = new Promise<void>((resolve) => {
+        this.onClosed = resolve;
+    });
+
+    /**
+     * @param media counts the frames written and dropped, it may outlive
+     * the session
+     */
+    constructor(
+        readonly url: string,
+        readonly media = new MediaStats(),
+    ) {}
+
+    /**
+     * The bytes written to the remote server so far
+     */
+    get bytesOut(): number {
+        return this.client?.bytesOut ?? 0;
+    }
+
+    /**
+     * Connects to the remote server and starts publishing
+     */
+    async start(): Promise<Error | undefined> {
+        try {
+            this.client = new RtmpClient(this.url);
+        } catch (e) {
+            return e as Error;
+        }
+
+        // a rejection would skip the caller's reconnect
+        let err: Error | undefined;
+        try {
+            err = await this.client.connect() ?? await this.client.publish();
+        } catch (e) {
+            err = e as Error;
+        }
+        if (err) {
+            this.close();
+            return err;
+        }
+
+        this.client.wait().then(() => {
+            if (!this.closed) {
+                console.warn(`[PUSH] Remote server closed ${this.url}`);
+                this.close();
+            }
+        });
+
+        this.ready = true;
+        this.flush();
+    }
+
+    /**
+     * Queues an audio, video or data message for the remote server
+     */
+    write(message: Message): void {
+        if (this.closed) {
+            return;
+        }
+        if (message.header.type == MessageType.VIDEO) {
+            this.hasVideo = true;
+        }
+        if (this.queue.length >= MAX_QUEUED_MESSAGES) {
+            console.warn(
+                `[PUSH] Queue full for ${this.url}, skipping to the next keyframe`,
+            );
+            // the queued frames may reference the ones about to be
+            // dropped, only what configures the decoder is kept
+            const queue = this.queue;
+            this.queue = [];
+            for (const queued of queue) {
+                if (isDecoderConfig(queued)) {
+                    this.queue.push(queued);
+                } else {
+                    this.media.drop(queued);
+                }
+            }
+            this.skipping = true;
+            if (this.queue.length >= MAX_QUEUED_MESSAGES) {
+                // a publisher sending nothing but headers
+                this.media.drop(message);
+                return;
+            }
+        }
+        if (this.skipping && !isDecoderConfig(message)) {
+            if (!this.startsGop(message)) {
+                this.media.drop(message);
+                return;
+            }
+            this.skipping = false;
+        }
+        this.queue.push(message);
+        this.flush();
+    }
+
+    /**
+     * Resolves when the session is closed, by either side
+     */
+    wait(): Promise<void> {
+        return this.done;
+    }
+
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.queue = [];
+        this.client?.close();
+        console.log(`[PUSH] Closed push session to ${this.url}`);
+        this.onClosed();
+    }
+
+    /**
+     * A frame the destination can start decoding at, any audio frame when
+     * the stream has no video
+     */
+    private startsGop(message: Message) {
+        if (message.header.type == MessageType.AUDIO) {
+            return !this.hasVideo;
+        }
+        if (message.header.type != MessageType.VIDEO) {
+            return false;
+        }
+        const tag = parseVideoTag(message.payload);
+        return !(tag instanceof Error) && isKeyframe(tag) &&
+            !isVideoSequenceEnd(tag);
+    }
+
+    private async flush() {
+        if (!this.client || !this.ready || this.flushing) {
+            return;
+        }
+        this.flushing = true;
+        try {
+            while (this.queue.length > 0 && !this.closed) {
+                const message = this.queue.shift()!;
+                await this.client.writeMessage(message);
+                this.media.record(message);
+            }
+        } catch (e) {
+            console.error(`[PUSH] Failed to write to ${this.url}:`, e);
+            this.close();
+        } finally {
+            this.flushing = false;
+        }
+    }
+}
+
+/**
+ * Metadata and sequence headers, never dropped
+ */
+function isDecoderConfig(message: Message) {
+    switch (message.header.type) {
+        case MessageType.VIDEO: {
+            const tag = parseVideoTag(message.payload);
+            return !(tag instanceof Error) && isVideoSequenceHeader(tag);
+        }
+        case MessageType.AUDIO: {
+            const tag = parseAudioTag(message.payload);
+            return !(tag instanceof Error) && isAudioSequenceHeader(tag);
+        }
+        default:
+            return true;
+    }
+}
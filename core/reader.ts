@@ -0,0 +1,101 @@
+/**
+ * Anything bytes can be read from, a Deno.Conn or a Deno.FsFile
+ */
+export type Reader = {
+    read(p: Uint8Array): Promise<number | null>;
+};
+
+const DEFAULT_BUFFER_SIZE = 64 * 1024;
+
+/**
+ * A buffered reader that returns exactly the requested number of bytes
+ *
+ * One read from the underlying reader usually fills the buffer with
+ * several chunk headers and bodies, the following reads are served
+ * from memory.
+ */
+export class BufReader {
+    private buf: Uint8Array;
+    private start = 0;
+    private end = 0;
+
+    /**
+     * Fail a read that gets no data for this long, a reader that timed out
+     * must not be used again because the underlying read is still pending
+     */
+    timeoutMs: number | undefined;
+
+    constructor(
+        private readonly reader: Reader,
+        size: number = DEFAULT_BUFFER_SIZE,
+    ) {
+        this.buf = new Uint8Array(size);
+    }
+
+    /**
+     * Number of bytes that have been received but not read yet
+     */
+    get buffered(): number {
+        return this.end - this.start;
+    }
+
+    /**
+     * Reads exactly `size` bytes
+     *
+     * Returns null if the reader ended before any of them arrived,
+     * throws Deno.errors.UnexpectedEof if it ended in the middle and
+     * Deno.errors.TimedOut if no data arrived within timeoutMs.
+     */
+    async readExact(size: number): Promise<Uint8Array | null> {
+        if (size > this.buf.length) {
+            const grown = new Uint8Array(size);
+            grown.set(this.buf.subarray(this.start, this.end));
+            this.buf = grown;
+            this.end -= this.start;
+            this.start = 0;
+        }
+
+        while (this.end - this.start < size) {
+            // make room at the end of the buffer
+            if (this.buf.length - this.start < size) {
+                this.buf.copyWithin(0, this.start, this.end);
+                this.end -= this.start;
+                this.start = 0;
+            }
+
+            const n = await this.fill(this.buf.subarray(this.end));
+            if (n == null) {
+                if (this.end == this.start) {
+                    return null;
+                }
+                throw new Deno.errors.UnexpectedEof(
+                    `expected ${size} bytes, got ${this.end - this.start}`,
+                );
+            }
+            this.end += n;
+        }
+
+        const bytes = this.buf.slice(this.start, this.start + size);
+        this.start += size;
+        return bytes;
+    }
+
+    private fill(p: Uint8Array): Promise<number | null> {
+        const read = this.reader.read(p);
+        if (this.timeoutMs === undefined) {
+            return read;
+        }
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                reject(
+                    new Deno.errors.TimedOut(
+                        `no data received for ${this.timeoutMs}ms`,
+                    ),
+                );
+            }, this.timeoutMs);
+        });
+        return Promise.race([read, timeout]).finally(() => clearTimeout(timer));
+    }
+}
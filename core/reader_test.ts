@@ -0,0 +1,112 @@
+import { assert, assertEquals } from "@std/assert";
+import { BufReader, Reader } from "./reader.ts";
+
+/**
+ * Hands out the chunks one read at a time, then ends
+ */
+function chunkReader(chunks: number[][]): Reader & { reads: number } {
+    const pending = chunks.map((chunk) => new Uint8Array(chunk));
+    return {
+        reads: 0,
+        read(p: Uint8Array) {
+            this.reads++;
+            const chunk = pending.shift();
+            if (!chunk) {
+                return Promise.resolve(null);
+            }
+            const n = Math.min(p.length, chunk.length);
+            p.set(chunk.subarray(0, n));
+            if (n < chunk.length) {
+                pending.unshift(chunk.subarray(n));
+            }
+            return Promise.resolve(n);
+        },
+    };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+    try {
+        await promise;
+    } catch (e) {
+        return e;
+    }
+    throw new Error("expected a rejection");
+}
+
+Deno.test("BufReader returns exactly the bytes asked for", async () => {
+    const source = chunkReader([[1, 2], [3, 4, 5], [6]]);
+    const reader = new BufReader(source);
+    assertEquals(await reader.readExact(3), new Uint8Array([1, 2, 3]));
+    assertEquals(reader.buffered, 2);
+    assertEquals(await reader.readExact(2), new Uint8Array([4, 5]));
+    assertEquals(await reader.readExact(1), new Uint8Array([6]));
+    assertEquals(source.reads, 3);
+});
+
+Deno.test("BufReader serves reads from what one read buffered", async () => {
+    const source = chunkReader([[1, 2, 3, 4, 5, 6]]);
+    const reader = new BufReader(source);
+    for (const expected of [[1], [2, 3], [4, 5, 6]]) {
+        assertEquals(
+            await reader.readExact(expected.length),
+            new Uint8Array(expected),
+        );
+    }
+    assertEquals(source.reads, 1);
+});
+
+Deno.test("BufReader grows and compacts its buffer", async () => {
+    const bytes = Array.from({ length: 40 }, (_, i) => i);
+    const reader = new BufReader(
+        chunkReader([bytes.slice(0, 7), bytes.slice(7, 30), bytes.slice(30)]),
+        8,
+    );
+    assertEquals(await reader.readExact(5), new Uint8Array(bytes.slice(0, 5)));
+    // more than the buffer holds
+    assertEquals(
+        await reader.readExact(20),
+        new Uint8Array(bytes.slice(5, 25)),
+    );
+    assertEquals(await reader.readExact(15), new Uint8Array(bytes.slice(25)));
+});
+
+Deno.test("BufReader returns null at the end of the stream", async () => {
+    const reader = new BufReader(chunkReader([[1, 2]]));
+    assertEquals(await reader.readExact(2), new Uint8Array([1, 2]));
+    assertEquals(await reader.readExact(1), null);
+    assertEquals(await reader.readExact(1), null);
+});
+
+Deno.test("BufReader throws UnexpectedEof when the stream ends mid-read", async () => {
+    const reader = new BufReader(chunkReader([[1, 2]]));
+    const error = await rejection(reader.readExact(3));
+    assert(error instanceof Deno.errors.UnexpectedEof);
+});
+
+Deno.test("BufReader times out a read that gets no data", async () => {
+    const reader = new BufReader({
+        read: () => new Promise<number | null>(() => {}),
+    });
+    reader.timeoutMs = 20;
+    const started = Date.now();
+    const error = await rejection(reader.readExact(1));
+    assert(error instanceof Deno.errors.TimedOut);
+    assert(Date.now() - started >= 15);
+});
+
+Deno.test("BufReader without a timeout waits for slow data", async () => {
+    const reader = new BufReader({
+        read: (p: Uint8Array) =>
+            new Promise((resolve) =>
+                setTimeout(() => {
+                    p[0] = 9;
+                    resolve(1);
+                }, 30)
+            ),
+    });
+    assertEquals(await reader.readExact(1), new Uint8Array([9]));
+
+    // and with one, data in time is fine
+    reader.timeoutMs = 1000;
+    assertEquals(await reader.readExact(1), new Uint8Array([9]));
+});
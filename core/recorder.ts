@@ -0,0 +1,298 @@
+import * as path from "jsr:@std/path";
+import {
+    encodeFlvHeader,
+    encodeFlvTag,
+    flvHeaderFlags,
+    TAG_HEADER_SIZE,
+} from "./flv.ts";
+import {
+    isKeyframe,
+    isVideoSequenceEnd,
+    isVideoSequenceHeader,
+    parseVideoTag,
+} from "./media.ts";
+import { Message, MessageType, stripSetDataFrame } from "./messages.ts";
+import { encodeMetadata, StreamMetadata } from "./metadata.ts";
+import { LiveStream } from "./streams.ts";
+
+export type RecorderOptions = {
+    // where the recordings are written, created when missing
+    directory: string;
+    // the file path inside the directory, see recordingPath
+    template?: string;
+    // a new file is started at the first keyframe past either limit
+    maxDuration?: number; // seconds
+    maxSize?: number; // bytes
+};
+
+const DEFAULT_TEMPLATE = "{app}/{name}-{date}-{time}.flv";
+
+/**
+ * A finalized recording file
+ */
+export type Recording = {
+    path: string;
+    duration: number; // seconds
+    size: number; // bytes
+};
+
+/**
+ * Writes the audio, video and data messages of a published stream to FLV
+ * files, like FanOut it is fed the messages the publisher sends.
+ *
+ * Each file starts with an onMetaData whose duration and filesize are
+ * patched when the file is closed, followed by the sequence headers.
+ */
+export class FlvRecorder {
+    private file: Deno.FsFile | undefined;
+    private filePath = "";
+    private fileIndex = 0;
+    private fileMetadata: StreamMetadata = { properties: {} };
+    private metadataOffset = 0;
+    private size = 0;
+    // message timestamps are written relative to the start of each file
+    private baseTimestamp = 0;
+    private lastTimestamp = 0;
+    private hasVideo = false;
+    private writeLock: Promise<void> = Promise.resolve();
+    private stopped = false;
+
+    constructor(
+        readonly stream: LiveStream,
+        readonly options: RecorderOptions,
+        // called for every file once it is finalized
+        private readonly onRecorded?: (recording: Recording) => void,
+    ) {}
+
+    write(message: Message): void {
+        if (this.stopped) {
+            return;
+        }
+        this.writeLock = this.writeLock
+            .then(() => this.record(message))
+            .catch((e) => this.fail(e));
+    }
+
+    /**
+     * Writes what is queued and finalizes the current file
+     */
+    stop(): Promise<void> {
+        this.stopped = true;
+        this.writeLock = this.writeLock
+            .then(() => this.closeFile())
+            .catch((e) => this.fail(e));
+        return this.writeLock;
+    }
+
+    private async record(message: Message) {
+        const { type, timestamp } = message.header;
+        if (
+            type != MessageType.AUDIO && type != MessageType.VIDEO &&
+            type != MessageType.DATA_AMF0
+        ) {
+            return;
+        }
+
+        // files start at a keyframe, or at any audio frame without video
+        let startsFile = type == MessageType.AUDIO && !this.expectsVideo();
+        if (type == MessageType.VIDEO) {
+            const tag = parseVideoTag(message.payload);
+            if (!(tag instanceof Error)) {
+                this.hasVideo = true;
+                startsFile = isKeyframe(tag) && !isVideoSequenceHeader(tag) &&
+                    !isVideoSequenceEnd(tag);
+            }
+        }
+        if (this.file && startsFile && this.rotationDue(timestamp)) {
+            await this.closeFile();
+        }
+
+        if (!this.file) {
+            // the first file waits for a keyframe too, the publisher's
+            // metadata and sequence headers are written when it is opened
+            if (!startsFile) {
+                return;
+            }
+            await this.openFile(message);
+        }
+
+        const payload = type == MessageType.DATA_AMF0
+            ? stripSetDataFrame(message.payload)
+            : message.payload;
+        await this.writeTag(
+            type,
+            Math.max(0, timestamp - this.baseTimestamp),
+            payload,
+        );
+    }
+
+    /**
+     * Whether video was received or announced in the onMetaData, audio
+     * may come first
+     */
+    private expectsVideo() {
+        return this.hasVideo ||
+            this.stream.publisher?.metadata?.videoCodecId !== undefined;
+    }
+
+    private rotationDue(timestamp: number) {
+        const { maxDuration, maxSize } = this.options;
+        return (maxDuration !== undefined &&
+            timestamp - this.baseTimestamp >= maxDuration * 1000) ||
+            (maxSize !== undefined && this.size >= maxSize);
+    }
+
+    private async openFile(first: Message) {
+        const template = this.options.template ?? DEFAULT_TEMPLATE;
+        const file = await createFile(
+            path.join(
+                this.options.directory,
+                recordingPath(template, this.stream.name, this.fileIndex++),
+            ),
+        );
+        [this.file, this.filePath] = file;
+        this.size = 0;
+        this.baseTimestamp = first.header.timestamp;
+        this.lastTimestamp = 0;
+        this.fileMetadata = this.stream.publisher?.metadata ??
+            { properties: {} };
+
+        await this.writeBytes(
+            encodeFlvHeader(flvHeaderFlags(this.fileMetadata)),
+        );
+
+        this.metadataOffset = this.size;
+        await this.writeTag(
+            MessageType.DATA_AMF0,
+            0,
+            this.encodeFileMetadata(0, 0),
+        );
+        for (const message of this.stream.cache.sequenceHeaders()) {
+            if (message !== first) {
+                await this.writeTag(message.header.type, 0, message.payload);
+            }
+        }
+        console.log(
+            `[RECORDER] Recording ${this.stream.name} to ${this.filePath}`,
+        );
+    }
+
+    /**
+     * Patches the duration and filesize of the onMetaData, they are
+     * numbers both times so the tag keeps its size
+     */
+    private async closeFile() {
+        const file = this.file;
+        if (!file) {
+            return;
+        }
+        this.file = undefined;
+
+        const duration = this.lastTimestamp / 1000;
+        try {
+            await file.seek(
+                this.metadataOffset + TAG_HEADER_SIZE,
+                Deno.SeekMode.Start,
+            );
+            await writeAll(file, this.encodeFileMetadata(duration, this.size));
+        } finally {
+            file.close();
+        }
+        console.log(
+            `[RECORDER] Closed ${this.filePath}: ${duration}s, ${this.size} bytes`,
+        );
+        this.onRecorded?.({ path: this.filePath, duration, size: this.size });
+    }
+
+    private encodeFileMetadata(duration: number, filesize: number) {
+        return stripSetDataFrame(encodeMetadata({
+            ...this.fileMetadata,
+            properties: {
+                ...this.fileMetadata.properties,
+                duration,
+                filesize,
+            },
+        }));
+    }
+
+    private async writeTag(type: number, timestamp: number, data: Uint8Array) {
+        await this.writeBytes(encodeFlvTag({ type, timestamp, data }));
+        this.lastTimestamp = Math.max(this.lastTimestamp, timestamp);
+    }
+
+    private async writeBytes(bytes: Uint8Array) {
+        await writeAll(this.file!, bytes);
+        this.size += bytes.length;
+    }
+
+    private fail(e: unknown) {
+        console.error(`[RECORDER] Failed to record ${this.filePath}:`, e);
+        this.stopped = true;
+        this.file?.close();
+        this.file = undefined;
+    }
+}
+
+/**
+ * Fills in a template like "{app}/{name}-{date}-{time}.flv":
+ * {app} and {name} from the stream name, {date} as YYYYMMDD, {time} as
+ * HHMMSS in local time, {index} counting the files of one publish from 0
+ */
+function recordingPath(template: string, streamName: string, index: number) {
+    const slash = streamName.indexOf("/");
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const values: Record<string, string> = {
+        app: streamName.slice(0, Math.max(slash, 0)),
+        name: streamName.slice(slash + 1),
+        date: `${now.getFullYear()}${pad(now.getMonth() + 1)}${
+            pad(now.getDate())
+        }`,
+        time: `${pad(now.getHours())}${pad(now.getMinutes())}${
+            pad(now.getSeconds())
+        }`,
+        index: String(index),
+    };
+    return template.replace(
+        /\{(\w+)\}/g,
+        (placeholder, key: string) =>
+            key in values
+                // stream names come from publishers, keep them in the directory
+                ? values[key].replace(/[/\\]/g, "_").replaceAll("..", "_")
+                : placeholder,
+    );
+}
+
+/**
+ * Creates the file and its directories, "-1", "-2" ... are appended to
+ * the name when a file of the same name exists
+ */
+async function createFile(
+    filePath: string,
+): Promise<[Deno.FsFile, string]> {
+    await Deno.mkdir(path.dirname(filePath), { recursive: true });
+    const { dir, name, ext } = path.parse(filePath);
+    for (let attempt = 0;; attempt++) {
+        const candidate = attempt == 0
+            ? filePath
+            : path.join(dir, `${name}-${attempt}${ext}`);
+        try {
+            const file = await Deno.open(candidate, {
+                write: true,
+                createNew: true,
+            });
+            return [file, candidate];
+        } catch (e) {
+            if (!(e instanceof Deno.errors.AlreadyExists)) {
+                throw e;
+            }
+        }
+    }
+}
+
+async function writeAll(file: Deno.FsFile, bytes: Uint8Array) {
+    let written = 0;
+    while (written < bytes.length) {
+        written += await file.write(bytes.subarray(written));
+    }
+}
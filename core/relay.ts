@@ -1,10 +1,14 @@
 import * as path from "jsr:@std/path";
 import { exec } from "https://deno.land/x/exec/mod.ts";
+import { authorizePublish, generatePublishKey } from "./auth.ts";
+import { FanOut } from "./fanout.ts";
+import { HlsPackager, HlsStreams } from "./hls.ts";
+import { FlvRecorder, RecorderOptions } from "./recorder.ts";
+import { RtmpServer, RtmpServerOptions } from "./server.ts";
+import { RtmpSession } from "./session.ts";
+import { Webhooks } from "./webhooks.ts";
 
 const VERSION = "0.0.1";
-const ffmpeg = await Deno.readFile(
-    path.join(import.meta.dirname || "./", "/../assets/ffmpeg-mac"),
-);
 
 const CONFIG_DIR = ".streamany-config";
 
@@ -26,6 +30,10 @@ export async function setup_ffmpeg_binary() {
         }
     }
 
+    // only read when needed, the native relay doesn't bundle ffmpeg
+    const ffmpeg = await Deno.readFile(
+        path.join(import.meta.dirname || "./", "/../assets/ffmpeg-mac"),
+    );
     const ffmpeg_path = path.join(config_path, "ffmpeg");
     await Deno.writeFile(ffmpeg_path, ffmpeg, {
         mode: 0o777,
@@ -47,19 +55,8 @@ export async function run_ffmpeg(ffmpeg_path: string, data: Item[]) {
         "rtmp://localhost:1935/live",
     ];
 
-    for (const item of data) {
-        if (item.server) {
-            const url = parseURL(item.server);
-            if (url instanceof URL && url.protocol == "rtmp:") {
-                args.push(
-                    "-c",
-                    "copy",
-                    "-f",
-                    "flv",
-                    `${item.server}/${item.key}`,
-                );
-            }
-        }
+    for (const url of destination_urls(data)) {
+        args.push("-c", "copy", "-f", "flv", url);
     }
 
     const ffmpeg_command = new Deno.Command(ffmpeg_path, {
@@ -76,9 +73,218 @@ export async function run_ffmpeg(ffmpeg_path: string, data: Item[]) {
     return ffmpeg_process;
 }
 
-type Item = {
+export type RelayOptions = Omit<RtmpServerOptions, "handlers"> & {
+    // read on every publish, so that rotated keys apply right away.
+    // Anyone may publish when no keys are configured.
+    publish_keys?: () => Promise<string[]>;
+    // every published stream is also recorded to FLV files
+    record?: RecorderOptions;
+    // and packaged for HLS players
+    hls?: HlsStreams;
+    // notified of publishers, players, destinations and recordings
+    webhooks?: Webhooks;
+};
+
+/**
+ * Relays every stream published to the returned server to the destinations,
+ * without ffmpeg. Call serve() on the server to start accepting publishers.
+ * Without routes the streams are only ingested, for players, HLS and
+ * recordings.
+ */
+export function run_relay(
+    routes: Routes,
+    options: RelayOptions = {},
+): RtmpServer | Error {
+    const { publish_keys, record, hls, webhooks, ...server_options } = options;
+
+    const fanOuts = new Map<RtmpSession, FanOut>();
+    const recorders = new Map<RtmpSession, FlvRecorder>();
+    const hlsPackagers = new Map<RtmpSession, HlsPackager>();
+    // publish_start waits for the first message, the onMetaData publishers
+    // send right after publishing, so that it carries the metadata
+    const unannounced = new Set<RtmpSession>();
+    const announce_publish = (session: RtmpSession) => {
+        if (unannounced.delete(session)) {
+            webhooks?.send({
+                event: "publish_start",
+                ...webhooks.describe(session),
+            });
+        }
+    };
+    const server = new RtmpServer({
+        ...server_options,
+        handlers: {
+            async authorizePublish(session, streamName) {
+                const keys = await publish_keys?.() ?? [];
+                if (keys.length == 0) {
+                    return;
+                }
+                return authorizePublish(keys, streamName, session.connectQuery);
+            },
+            onPublish(session, stream) {
+                unannounced.add(session);
+                if (record) {
+                    recorders.set(
+                        session,
+                        new FlvRecorder(
+                            stream,
+                            record,
+                            (recording) =>
+                                webhooks?.send({
+                                    event: "recording_finished",
+                                    ...webhooks.describe(session),
+                                    stream: stream.name,
+                                    recording,
+                                }),
+                        ),
+                    );
+                }
+                if (hls) {
+                    hlsPackagers.set(session, hls.start(stream.name));
+                }
+                const destUrls = route_stream(routes, stream.name);
+                if (!destUrls) {
+                    if (routes.size == 0) {
+                        return;
+                    }
+                    console.warn(
+                        `[RELAY] No destination URLs configured for stream: ${stream.name}`,
+                    );
+                    return;
+                }
+                const fanOut = new FanOut(destUrls, stream, {
+                    onDestinationUp: (destination) =>
+                        webhooks?.send({
+                            event: "destination_up",
+                            ...webhooks.describe(session),
+                            stream: stream.name,
+                            destination,
+                        }),
+                    onDestinationDown: (destination) =>
+                        webhooks?.send({
+                            event: "destination_down",
+                            ...webhooks.describe(session),
+                            stream: stream.name,
+                            destination,
+                        }),
+                });
+                fanOuts.set(session, fanOut);
+                server_options.stats?.fanOuts.add(fanOut);
+                fanOut.start();
+            },
+            onMediaMessage(session, message) {
+                announce_publish(session);
+                fanOuts.get(session)?.forward(message);
+                recorders.get(session)?.write(message);
+                hlsPackagers.get(session)?.write(message);
+            },
+            onUnpublish(session) {
+                announce_publish(session);
+                webhooks?.send({
+                    event: "publish_stop",
+                    ...webhooks.describe(session),
+                });
+                const fanOut = fanOuts.get(session);
+                fanOut?.stop();
+                if (fanOut) {
+                    server_options.stats?.fanOuts.delete(fanOut);
+                }
+                fanOuts.delete(session);
+                recorders.get(session)?.stop();
+                recorders.delete(session);
+                hlsPackagers.get(session)?.end();
+                hlsPackagers.delete(session);
+            },
+            onPlay(session) {
+                webhooks?.send({
+                    event: "play_start",
+                    ...webhooks.describe(session),
+                });
+            },
+            onStop(session) {
+                webhooks?.send({
+                    event: "play_stop",
+                    ...webhooks.describe(session),
+                });
+            },
+        },
+    });
+    const err = server.listen();
+    if (err) {
+        return err;
+    }
+    for (const [stream, destUrls] of routes) {
+        console.log("relaying", stream, "to", destUrls);
+    }
+    return server;
+}
+
+/**
+ * The rtmp urls of the configured platforms
+ */
+export function destination_urls(data: Item[]): string[] {
+    const urls: string[] = [];
+    for (const item of data) {
+        const url = destination_url(item);
+        if (url) {
+            urls.push(url);
+        }
+    }
+    return urls;
+}
+
+/**
+ * Destination URLs per published stream, like RelayServer.AddDestination
+ * in go-f/relay.go. A stream is either "app/streamName" or "streamName",
+ * "*" is used by the streams that have no destinations of their own.
+ */
+export type Routes = Map<string, string[]>;
+
+/**
+ * Groups the configured platforms by stream, platforms without a stream
+ * receive every stream
+ */
+export function destination_routes(data: Item[]): Routes {
+    const routes: Routes = new Map();
+    for (const item of data) {
+        const url = destination_url(item);
+        if (!url) {
+            continue;
+        }
+        const stream = item.stream?.trim() || "*";
+        const urls = routes.get(stream) ?? [];
+        urls.push(url);
+        routes.set(stream, urls);
+    }
+    return routes;
+}
+
+/**
+ * Finds the destinations of "app/streamName", the most specific route wins
+ */
+export function route_stream(
+    routes: Routes,
+    stream: string,
+): string[] | undefined {
+    const streamName = stream.slice(stream.indexOf("/") + 1);
+    return routes.get(stream) ?? routes.get(streamName) ?? routes.get("*");
+}
+
+function destination_url(item: Item) {
+    if (!item.server) {
+        return;
+    }
+    const url = parseURL(item.server);
+    if (url instanceof URL && url.protocol == "rtmp:") {
+        return `${item.server}/${item.key}`;
+    }
+}
+
+export type Item = {
     server: string;
     key: string;
+    // the published stream relayed to this platform, "*" or empty for all
+    stream?: string;
 };
 
 export async function get_relay_config() {
@@ -88,29 +294,57 @@ export async function get_relay_config() {
     // This example fetches all entries with the prefix "restream:"
     const server1 = await kv.get<string>(["item1", "server"]);
     const key1 = await kv.get<string>(["item1", "key"]);
+    const stream1 = await kv.get<string>(["item1", "stream"]);
 
     const server2 = await kv.get<string>(["item2", "server"]);
     const key2 = await kv.get<string>(["item2", "key"]);
+    const stream2 = await kv.get<string>(["item2", "stream"]);
 
     const server3 = await kv.get<string>(["item3", "server"]);
     const key3 = await kv.get<string>(["item3", "key"]);
+    const stream3 = await kv.get<string>(["item3", "stream"]);
 
     // Process the entries
     const data: Item[] = [{
         server: server1.value || "",
         key: key1.value || "",
+        stream: stream1.value || "*",
     }, {
         server: server2.value || "",
         key: key2.value || "",
+        stream: stream2.value || "*",
     }, {
         server: server3.value || "",
         key: key3.value || "",
+        stream: stream3.value || "*",
     }];
 
     kv.close();
     return data;
 }
 
+/**
+ * The keys publishers have to present, see core/auth.ts
+ */
+export async function get_publish_keys(): Promise<string[]> {
+    const kv = await Deno.openKv();
+    const keys = await kv.get<string[]>(["publish_keys"]);
+    kv.close();
+    return keys.value || [];
+}
+
+/**
+ * Replaces the publish keys with a new random one, publishers using
+ * the old keys are rejected from their next publish on
+ */
+export async function rotate_publish_key(): Promise<string> {
+    const key = generatePublishKey();
+    const kv = await Deno.openKv();
+    await kv.set(["publish_keys"], [key]);
+    kv.close();
+    return key;
+}
+
 function parseURL(url: string) {
     try {
         return new URL(url);
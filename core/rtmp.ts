@@ -1,13 +1,8 @@
 import { equals } from "jsr:@std/bytes/equals";
-import { assertEquals, assertNotEquals } from "jsr:@std/assert";
-import { handleMessage, messagesFromChunks, MessageType } from "./messages.ts";
-
-const chunkStreamStates = new Map<number, {
-    messageLength: number;
-    messageTypeId: number;
-    messageStreamId: number;
-    timestamp: number;
-}>();
+import { assertEquals } from "jsr:@std/assert";
+import { Writer } from "./chunk.ts";
+import { BufReader } from "./reader.ts";
+import { run_relay } from "./relay.ts";
 
 export enum FMT {
     Type0 = 0,
@@ -16,21 +11,15 @@ export enum FMT {
     Type3 = 3,
 }
 
-const listener = Deno.listen({
-    port: 1935,
-    hostname: "localhost",
-});
-console.log("listening at", listener.addr);
-
-let chunkSizeRef = { value: 128 };
-async function* chunkStream(
-    conn: Deno.TcpConn,
+export async function* chunkStream(
+    reader: BufReader,
     chunkSizeRef: { value: number },
+    chunkStreamStates: Map<number, ChunkStreamState>,
 ) {
     let i = 0;
     while (true) {
         console.log("readChunk: begin------------", i++);
-        const chunk = await readChunk(conn, chunkSizeRef, chunkStreamStates);
+        const chunk = await readChunk(reader, chunkSizeRef, chunkStreamStates);
         if (!chunk) {
             console.log("No chunk received, connection may be closed");
             break;
@@ -39,7 +28,13 @@ async function* chunkStream(
     }
 }
 
-for await (const conn of listener) {
+/**
+ * Server side of https://rtmp.veriskope.com/docs/spec/#52-handshake
+ */
+export async function handshake(
+    conn: Writer,
+    reader: BufReader,
+): Promise<Error | undefined> {
     // https://rtmp.veriskope.com/docs/spec/#522c0-and-s0-format
 
     ///////////////////
@@ -48,11 +43,9 @@ for await (const conn of listener) {
     /**
     read c0
     */
-    const c0 = await read(conn, 1);
+    const c0 = await reader.readExact(1);
     if (c0 == null || c0[0] != 3) {
-        console.error("version is not 3:", c0);
-        conn.close();
-        break;
+        return new Error(`version is not 3: ${c0}`);
     }
 
     /**
@@ -85,26 +78,23 @@ for await (const conn of listener) {
     /**
     read c1 https://rtmp.veriskope.com/docs/spec/#523c1-and-s1-format
     */
-    const c1_time = await read(conn, 4);
+    const c1_time = await reader.readExact(4);
     if (c1_time == null) {
-        conn.close();
-        break;
+        return new Error("connection closed before c1 time");
     }
     console.log("c1 time", c1_time);
 
-    const c1_zero = await read(conn, 4);
+    const c1_zero = await reader.readExact(4);
     if (c1_zero == null) {
-        conn.close();
-        break;
+        return new Error("connection closed before c1 zero");
     }
     console.log("c1 zero", c1_zero);
     if (equals(c1_zero, new Uint8Array([0, 0, 0, 0])) == false) {
         console.warn("c1_zero is not 0", c1_zero);
     }
-    const c1_randome = await read(conn, 1528);
+    const c1_randome = await reader.readExact(1528);
     if (c1_randome == null) {
-        conn.close();
-        break;
+        return new Error("connection closed before c1 random");
     }
 
     // send s2
@@ -119,48 +109,41 @@ for await (const conn of listener) {
     read c2 https://rtmp.veriskope.com/docs/spec/#524-c2-and-s2-format
     */
     console.log("reading c2");
-    const c2 = await read(conn, 1536);
+    const c2 = await reader.readExact(1536);
     if (c2 == null) {
-        conn.close();
-        break;
+        return new Error("connection closed before c2");
+    }
+    if (
+        !equals(c2.slice(0, 4), s1_time) ||
+        !equals(c2.slice(4, 8), s1_zero) ||
+        !equals(c2.slice(8, 1536), s1_random)
+    ) {
+        return new Error("c2 does not echo s1");
     }
-    assertEquals(c2.slice(0, 4), s1_time);
-    assertEquals(c2.slice(4, 8), s1_zero);
-    assertEquals(c2.slice(8, 1536), s1_random);
 
     console.log("Handshake Done");
+}
 
-    console.log("[CONNECTION] Starting to process chunks after handshake");
-    const chunks = chunkStream(conn, chunkSizeRef);
-    for await (const message of messagesFromChunks(chunks)) {
-        console.log(
-            "Received message:",
-            message.header,
-            message.payload.length,
-        );
-
-        // Process the message
-        await handleMessage(conn, message, chunkSizeRef);
+if (import.meta.main) {
+    // every published stream is relayed to the rtmp urls given as arguments
+    const server = run_relay(new Map([["*", Deno.args]]));
+    if (server instanceof Error) {
+        console.error(server);
+        Deno.exit(1);
     }
+    await server.serve();
 }
 
-// todo: don't use module level global state
-
 async function readChunk(
-    conn: Deno.TcpConn,
+    reader: BufReader,
     chunkSizeRef: { value: number },
-    chunkStreamStates: Map<number, {
-        messageLength: number;
-        messageTypeId: number;
-        messageStreamId: number;
-        timestamp: number;
-    }>,
+    chunkStreamStates: Map<number, ChunkStreamState>,
 ): Promise<Chunk | null> {
     try {
         console.log("readChunk: begin");
         console.log(`[CHUNK] Current chunk size: ${chunkSizeRef.value}`);
         console.log(`[CHUNK] Active chunk streams: ${chunkStreamStates.size}`);
-        const chunk_header = await readChunkHeader(conn);
+        const chunk_header = await readChunkHeader(reader, chunkStreamStates);
         console.log("readChunkHeader: Done");
 
         // Get or create the state for this chunk stream
@@ -168,30 +151,48 @@ async function readChunk(
 
         // Update state based on the header type
         if (chunk_header.message_header.type === FMT.Type0) {
-            // For Type 0, we have a new message, so update all state
+            // For Type 0, we have a new message with an absolute timestamp
             state = {
                 messageLength: chunk_header.message_header.message_length,
                 messageTypeId: chunk_header.message_header.message_type_id,
                 messageStreamId: chunk_header.message_header.message_stream_id,
                 timestamp: chunk_header.message_header.timestamp,
+                timestampDelta: 0,
+                bytesRemaining: 0,
+                extendedTimestamp:
+                    chunk_header.extended_timestamp !== undefined,
             };
             chunkStreamStates.set(chunk_header.chunk_stream_id, state);
         } else if (chunk_header.message_header.type === FMT.Type1) {
-            // For Type 1, update length, type ID and timestamp
+            // For Type 1, update length, type ID and timestamp delta
             if (state) {
                 state.messageLength =
                     chunk_header.message_header.message_length;
                 state.messageTypeId =
                     chunk_header.message_header.message_type_id;
-                state.timestamp = chunk_header.message_header.timestamp;
+                state.timestampDelta = chunk_header.message_header.timestamp;
+                state.timestamp = addTimestamps(
+                    state.timestamp,
+                    state.timestampDelta,
+                );
+                state.bytesRemaining = 0;
+                state.extendedTimestamp =
+                    chunk_header.extended_timestamp !== undefined;
             } else {
                 console.warn("Received Type1 chunk without previous state");
                 return null;
             }
         } else if (chunk_header.message_header.type === FMT.Type2) {
-            // For Type 2, only update timestamp
+            // For Type 2, only update timestamp delta
             if (state) {
-                state.timestamp = chunk_header.message_header.timestamp;
+                state.timestampDelta = chunk_header.message_header.timestamp;
+                state.timestamp = addTimestamps(
+                    state.timestamp,
+                    state.timestampDelta,
+                );
+                state.bytesRemaining = 0;
+                state.extendedTimestamp =
+                    chunk_header.extended_timestamp !== undefined;
             } else {
                 console.warn("Received Type2 chunk without previous state");
                 return null;
@@ -200,47 +201,69 @@ async function readChunk(
             // For Type 3, if we have no state, we can't continue
             console.warn("Received Type3 chunk without previous state");
             return null;
+        } else if (state.bytesRemaining == 0) {
+            // A Type 3 chunk that starts a new message reuses the previous delta
+            state.timestamp = addTimestamps(
+                state.timestamp,
+                state.timestampDelta,
+            );
         }
 
-        // Determine the actual size to read (using the stored state for Type 1-3)
-        let sizeToRead = chunkSizeRef.value;
-        if (state && state.messageLength < chunkSizeRef.value) {
-            sizeToRead = state.messageLength;
+        // A chunk carries at most one chunk size worth of the current message
+        if (state.bytesRemaining == 0) {
+            state.bytesRemaining = state.messageLength;
         }
+        const sizeToRead = Math.min(chunkSizeRef.value, state.bytesRemaining);
 
         // Read chunk data
         console.log(
-            `[CHUNK] Reading chunk data, size to read: ${sizeToRead} (message length: ${
-                state?.messageLength || "unknown"
-            })`,
+            `[CHUNK] Reading chunk data, size to read: ${sizeToRead} (message length: ${state.messageLength})`,
         );
-        const message = await read(conn, sizeToRead);
+        const message = await reader.readExact(sizeToRead);
         if (message == null) {
             console.warn("readChunk: no chunk data");
             return null;
         }
+        state.bytesRemaining -= message.length;
         console.log(
             `[CHUNK] Successfully read chunk data, received ${message.length} bytes`,
         );
 
-        // For Type 1-3, enhance the header with the stored state
-        if (chunk_header.message_header.type !== FMT.Type0 && state) {
-            chunk_header.message_header.message_length = state.messageLength;
-            chunk_header.message_header.message_type_id = state.messageTypeId;
-            chunk_header.message_header.message_stream_id =
-                state.messageStreamId;
-        }
+        // Fill the header with the resolved message state so that every chunk
+        // carries the message length, type, stream and absolute timestamp
+        chunk_header.message_header.message_length = state.messageLength;
+        chunk_header.message_header.message_type_id = state.messageTypeId;
+        chunk_header.message_header.message_stream_id = state.messageStreamId;
+        chunk_header.message_header.timestamp = state.timestamp;
 
         return {
             header: chunk_header,
             data: message,
         };
     } catch (error) {
+        // a connection that ended mid-chunk or went silent is an error
+        // the session has to know about, not a regular close
+        if (
+            error instanceof Deno.errors.UnexpectedEof ||
+            error instanceof Deno.errors.TimedOut
+        ) {
+            throw error;
+        }
         console.error("Error reading chunk:", error);
         return null;
     }
 }
 
+export type ChunkStreamState = {
+    messageLength: number;
+    messageTypeId: number;
+    messageStreamId: number;
+    timestamp: number; // absolute timestamp of the current message
+    timestampDelta: number;
+    bytesRemaining: number; // bytes of the current message not yet read
+    extendedTimestamp: boolean; // whether Type 3 chunks carry one too
+};
+
 export type Chunk = {
     header: ChunkHeader;
     data: Uint8Array;
@@ -272,31 +295,39 @@ type MessageHeader = {
     message_stream_id?: number; // 4 bytes
 } | {
     type: FMT.Type3;
+    timestamp?: number;
     message_length?: number;
     message_type_id?: number;
     message_stream_id?: number; // 4 bytes
 };
 
-async function readChunkHeader(conn: Deno.TcpConn): Promise<ChunkHeader> {
+async function readChunkHeader(
+    reader: BufReader,
+    chunkStreamStates: Map<number, ChunkStreamState>,
+): Promise<ChunkHeader> {
     /**
     Chunking https://rtmp.veriskope.com/docs/spec/#531chunk-format
     */
     // read Chunk Basic Header
-    const basic_header = await readBasicHeader(conn);
+    const basic_header = await readBasicHeader(reader);
     if (basic_header instanceof Error) throw basic_header;
     console.log("readBasicHeader: done");
     const { fmt, chunk_stream_id } = basic_header;
-    const message_header = await readMessageHeader(conn, fmt);
+    const message_header = await readMessageHeader(reader, fmt);
     if (message_header instanceof Error) throw message_header;
     console.log("readMessageHeader: done");
 
     // https://rtmp.veriskope.com/docs/spec/#5313-extended-timestamp
-    // should parse Extended Timestamp?
-    const extended_timestamp: undefined | number = undefined;
+    // Present when the 3 byte timestamp field is 0xFFFFFF, and in every
+    // Type 3 chunk that follows such a header on the same chunk stream
+    let extended_timestamp: undefined | number = undefined;
     if (message_header.type != FMT.Type3) {
         if (message_header.timestamp == 0xffffff) {
-            throw "not implemented";
+            extended_timestamp = await readExtendedTimestamp(reader);
+            message_header.timestamp = extended_timestamp;
         }
+    } else if (chunkStreamStates.get(chunk_stream_id)?.extendedTimestamp) {
+        extended_timestamp = await readExtendedTimestamp(reader);
     }
 
     return {
@@ -306,13 +337,29 @@ async function readChunkHeader(conn: Deno.TcpConn): Promise<ChunkHeader> {
     };
 }
 
+async function readExtendedTimestamp(reader: BufReader) {
+    const bytes = await reader.readExact(4);
+    if (bytes == null) {
+        throw new Error("Failed to read extended timestamp");
+    }
+    console.log("extended timestamp:", byte_4_to_number(bytes));
+    return byte_4_to_number(bytes);
+}
+
+/**
+ * RTMP timestamps are 32 bit and wrap around after about 49.7 days
+ */
+export function addTimestamps(timestamp: number, delta: number) {
+    return (timestamp + delta) >>> 0;
+}
+
 /**
  * https://rtmp.veriskope.com/docs/spec/#5311-chunk-basic-header
  */
-async function readBasicHeader(conn: Deno.TcpConn) {
+async function readBasicHeader(reader: BufReader) {
     console.log("readBasicHeader: start");
     console.log("[BASIC_HEADER] Attempting to read first byte...");
-    const header_1 = await read(conn, 1);
+    const header_1 = await reader.readExact(1);
     if (header_1 == null) {
         console.log(
             "[BASIC_HEADER] Failed to read first byte, connection may be closed",
@@ -337,14 +384,14 @@ async function readBasicHeader(conn: Deno.TcpConn) {
 
     if (first_byte_csid === 0) {
         // 2 bytes - csid range from 64-319
-        const second_byte = await read(conn, 1);
+        const second_byte = await reader.readExact(1);
         if (second_byte === null) {
             return new Error("Failed to read basic header second byte");
         }
         chunk_stream_id = second_byte[0] + 64;
     } else if (first_byte_csid === 1) {
         // 3 bytes - csid range from 64-65599
-        const extra_bytes = await read(conn, 2);
+        const extra_bytes = await reader.readExact(2);
         if (extra_bytes === null) {
             return new Error("Failed to read basic header extra bytes");
         }
@@ -358,7 +405,7 @@ async function readBasicHeader(conn: Deno.TcpConn) {
     return { fmt, chunk_stream_id };
 }
 
-async function readMessageHeader(conn: Deno.TcpConn, fmt: FMT) {
+async function readMessageHeader(reader: BufReader, fmt: FMT) {
     /**
      * Read Chunk Message Header
      * https://rtmp.veriskope.com/docs/spec/#5312-chunk-message-header
@@ -367,7 +414,7 @@ async function readMessageHeader(conn: Deno.TcpConn, fmt: FMT) {
     console.log("readMessageHeader: fmt", fmt);
     console.log(`[MESSAGE_HEADER] Reading header for format type ${fmt}`);
     if (fmt == FMT.Type0) {
-        const header = await read(conn, 11);
+        const header = await reader.readExact(11);
         if (header == null) {
             return new Error("Failed to read Type0 message header");
         }
@@ -385,7 +432,7 @@ async function readMessageHeader(conn: Deno.TcpConn, fmt: FMT) {
             message_stream_id: byte_4_to_number(message_stream_id),
         };
     } else if (fmt == FMT.Type1) {
-        const header = await read(conn, 7);
+        const header = await reader.readExact(7);
         if (header == null) {
             return new Error("Failed to read Type1 message header");
         }
@@ -401,7 +448,7 @@ async function readMessageHeader(conn: Deno.TcpConn, fmt: FMT) {
             message_type_id: message_type_id[0],
         };
     } else if (fmt == FMT.Type2) {
-        const header = await read(conn, 3); // Just read the timestamp delta for Type2
+        const header = await reader.readExact(3); // Just read the timestamp delta for Type2
         if (header == null) {
             return new Error("Failed to read Type2 message header");
         }
@@ -419,21 +466,6 @@ async function readMessageHeader(conn: Deno.TcpConn, fmt: FMT) {
     return message_header;
 }
 
-async function read(conn: Deno.TcpConn, size: number) {
-    console.log(`[READ] Attempting to read ${size} bytes...`);
-    const buf = new Uint8Array(size);
-    console.log(`[READ] Waiting for connection.read() to return...`);
-    const read_n = await conn.read(buf);
-    if (read_n == null) {
-        console.log(`[READ] Read returned null, connection likely closed`);
-        return null;
-    }
-    console.log(
-        `[READ] Successfully read ${read_n} bytes of ${size} requested`,
-    );
-    return buf.slice(0, read_n);
-}
-
 function byteToBinaryString(byte: ArrayBuffer) {
     // Ensure the value is treated as 8 bits
     // @ts-ignore
@@ -451,5 +483,6 @@ export function byte_3_to_number(bytes: Uint8Array) {
 
 export function byte_4_to_number(bytes: Uint8Array) {
     assertEquals(bytes.length, 4);
-    return (bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3];
+    // multiply instead of << 24 so that values above 2^31 stay unsigned
+    return bytes[0] * 0x1000000 + (bytes[1] << 16) + (bytes[2] << 8) + bytes[3];
 }
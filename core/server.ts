@@ -0,0 +1,108 @@
+import { RtmpEvents } from "./events.ts";
+import { MessageLimits } from "./messages.ts";
+import { RtmpHandlers, RtmpSession } from "./session.ts";
+import { StatsRegistry } from "./stats.ts";
+import { StreamRegistry } from "./streams.ts";
+
+export type RtmpServerOptions = {
+    hostname?: string; // defaults to localhost
+    port?: number; // defaults to 1935
+    gopCacheSize?: number; // GOPs kept for late joiners, defaults to 1
+    // streams shared with other consumers, like the HTTP-FLV endpoint,
+    // gopCacheSize is ignored when given
+    streams?: StreamRegistry;
+    handlers?: RtmpHandlers;
+    // memory a client may make the server hold for its incoming messages
+    limits?: MessageLimits;
+    // where the sessions are reported for /metrics
+    stats?: StatsRegistry;
+};
+
+/**
+ * An RTMP server that runs every client connection in its own session
+ *
+ * Usage:
+ *   const server = new RtmpServer({ port: 1935, handlers });
+ *   server.events.on("publish", (session, streamName) => {...});
+ *   const err = server.listen();
+ *   await server.serve();
+ */
+export class RtmpServer {
+    readonly sessions = new Set<RtmpSession>();
+    readonly streams: StreamRegistry;
+    readonly events = new RtmpEvents();
+    private listener: Deno.TcpListener | undefined;
+
+    constructor(readonly options: RtmpServerOptions = {}) {
+        this.streams = options.streams ??
+            new StreamRegistry(options.gopCacheSize);
+    }
+
+    get addr(): Deno.NetAddr | undefined {
+        return this.listener?.addr;
+    }
+
+    /**
+     * Opens the listening socket
+     */
+    listen(): Error | undefined {
+        try {
+            this.listener = Deno.listen({
+                hostname: this.options.hostname ?? "localhost",
+                port: this.options.port ?? 1935,
+            });
+        } catch (e) {
+            return e as Error;
+        }
+        console.log("listening at", this.listener.addr);
+    }
+
+    /**
+     * Accepts connections until the server is closed, a failing connection
+     * never stops the server
+     */
+    async serve(): Promise<void> {
+        if (!this.listener) {
+            throw new Error("serve() called before listen()");
+        }
+        try {
+            for await (const conn of this.listener) {
+                const session = new RtmpSession(
+                    conn,
+                    this.options.handlers ?? {},
+                    this.streams,
+                    this.events,
+                    this.options.limits,
+                );
+                this.sessions.add(session);
+                this.options.stats?.sessions.add(session);
+                // bookkept whether the session ended on an error or threw
+                session.run().catch((e) => e as Error).then((err) => {
+                    if (err) {
+                        console.error(`[SESSION ${session.id}]`, err);
+                        this.events.emit("error", session, err);
+                    }
+                    this.sessions.delete(session);
+                    this.options.stats?.sessions.delete(session);
+                });
+            }
+        } catch (e) {
+            // the listener was closed
+            if (!(e instanceof Deno.errors.BadResource)) {
+                throw e;
+            }
+        }
+    }
+
+    close(): void {
+        try {
+            this.listener?.close();
+        } catch {
+            // already closed
+        }
+        for (const session of this.sessions) {
+            session.close();
+        }
+        this.sessions.clear();
+    }
+}
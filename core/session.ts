@@ -0,0 +1,341 @@
+import { chunkStreamIdFor, ChunkWriter } from "./chunk.ts";
+import { RtmpEvents } from "./events.ts";
+import {
+    handleMessage,
+    Message,
+    MessageLimits,
+    messagesFromChunks,
+    MessageType,
+    PendingMessages,
+    sendAcknowledgement,
+    sendCommandAMF0,
+    stripSetDataFrame,
+} from "./messages.ts";
+import { FlowControl, MeteredConn } from "./flow.ts";
+import { AacConfig, AvcConfig } from "./media.ts";
+import { StreamMetadata } from "./metadata.ts";
+import { MediaStats } from "./stats.ts";
+import { BufReader } from "./reader.ts";
+import { chunkStream, ChunkStreamState, handshake } from "./rtmp.ts";
+import { LiveStream, StreamRegistry, Subscriber } from "./streams.ts";
+
+/**
+ * Callbacks through which the embedding application receives the streams
+ */
+export type RtmpHandlers = {
+    // audio, video and data messages of a publishing session
+    onMediaMessage?: (session: RtmpSession, message: Message) => void;
+    onPublish?: (session: RtmpSession, stream: LiveStream) => void;
+    onUnpublish?: (session: RtmpSession, stream: LiveStream) => void;
+    // a player joined or left the stream
+    onPlay?: (session: RtmpSession, stream: LiveStream) => void;
+    onStop?: (session: RtmpSession, stream: LiveStream) => void;
+    // the returned metadata is forwarded instead of the publisher's
+    onMetadata?: (
+        session: RtmpSession,
+        metadata: StreamMetadata,
+    ) => StreamMetadata | undefined;
+    // returning an Error rejects the publish and disconnects the client
+    authorizePublish?: (
+        session: RtmpSession,
+        streamName: string,
+    ) => Promise<Error | undefined> | Error | undefined;
+    onClose?: (session: RtmpSession) => void;
+};
+
+// a client that stalls in the middle of the handshake is dropped
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+// a player that falls this far behind loses messages instead of
+// growing the server's memory
+const MAX_QUEUED_MESSAGES = 1024;
+
+// announced on connect, larger chunks spend fewer bytes on headers
+export const OUTBOUND_CHUNK_SIZE = 4096;
+
+// the stream ID returned by createStream
+const STREAM_ID = 1;
+
+let nextSessionId = 1;
+
+/**
+ * The state of one client connection, from handshake to close
+ */
+export class RtmpSession implements Subscriber {
+    readonly id = nextSessionId++;
+    readonly chunkSizeRef = { value: 128 };
+    // the app from the connect command, without its query string
+    app = "";
+    connectQuery = "";
+    // the stream this session publishes or plays
+    stream: LiveStream | undefined;
+    role: "publisher" | "player" | undefined;
+    // the last onMetaData of the published stream
+    metadata: StreamMetadata | undefined;
+    // decoded from the last sequence headers of the published stream
+    videoConfig: AvcConfig | undefined;
+    audioConfig: AacConfig | undefined;
+    // the enhanced RTMP codecs negotiated on connect, undefined for legacy
+    fourCcList: string[] | undefined;
+    readonly connectedAt = Date.now();
+    // the frames published, or those written to the player
+    readonly media = new MediaStats();
+    // counts the bytes in and out for acknowledgements
+    readonly conn: MeteredConn;
+    // every message is written through it
+    readonly writer: ChunkWriter;
+    readonly flow: FlowControl;
+    private readonly reader: BufReader;
+    private readonly chunkStreamStates = new Map<number, ChunkStreamState>();
+    private readonly pendingMessages: PendingMessages;
+    private playQueue: Message[] = [];
+    private flushing = false;
+    private closed = false;
+
+    constructor(
+        private readonly socket: Deno.TcpConn,
+        readonly handlers: RtmpHandlers,
+        readonly streams: StreamRegistry,
+        readonly events = new RtmpEvents(),
+        limits: MessageLimits = {},
+    ) {
+        this.pendingMessages = new PendingMessages(limits);
+        this.conn = new MeteredConn(socket);
+        this.writer = new ChunkWriter(this.conn);
+        this.flow = new FlowControl(this.conn);
+        this.reader = new BufReader(this.conn);
+    }
+
+    get remoteAddr(): Deno.NetAddr {
+        return this.socket.remoteAddr;
+    }
+
+    /**
+     * Runs the handshake and handles messages until the connection ends
+     */
+    async run(): Promise<Error | undefined> {
+        console.log(
+            `[SESSION ${this.id}] New connection from ${this.remoteAddr.hostname}:${this.remoteAddr.port}`,
+        );
+        try {
+            this.reader.timeoutMs = HANDSHAKE_TIMEOUT_MS;
+            const err = await handshake(this.conn, this.reader);
+            if (err) {
+                return err;
+            }
+            // players may stay silent for as long as they watch
+            this.reader.timeoutMs = undefined;
+
+            console.log(
+                `[SESSION ${this.id}] Starting to process chunks after handshake`,
+            );
+            const chunks = chunkStream(
+                this.reader,
+                this.chunkSizeRef,
+                this.chunkStreamStates,
+            );
+            for await (
+                const message of messagesFromChunks(
+                    chunks,
+                    this.pendingMessages,
+                )
+            ) {
+                console.log(
+                    "Received message:",
+                    message.header,
+                    message.payload.length,
+                );
+
+                // Process the message
+                await handleMessage(this, message);
+
+                const sequenceNumber = this.flow.acknowledgementDue();
+                if (sequenceNumber !== undefined) {
+                    await sendAcknowledgement(this.writer, sequenceNumber);
+                }
+            }
+        } catch (e) {
+            return e as Error;
+        } finally {
+            this.close();
+        }
+    }
+
+    /**
+     * Discards the partly received message of the chunk stream, its
+     * remaining chunks will not come
+     */
+    abortMessage(chunkStreamId: number): void {
+        this.pendingMessages.discard(chunkStreamId);
+        const state = this.chunkStreamStates.get(chunkStreamId);
+        if (state) {
+            state.bytesRemaining = 0;
+        }
+    }
+
+    /**
+     * Starts publishing "app/streamName", fails if someone else already is
+     */
+    publish(streamName: string): LiveStream | Error {
+        this.stop();
+        const stream = this.streams.publish(
+            streamKey(this.app, streamName),
+            this,
+        );
+        if (stream instanceof Error) {
+            return stream;
+        }
+        this.stream = stream;
+        this.role = "publisher";
+        this.metadata = undefined;
+        this.videoConfig = undefined;
+        this.audioConfig = undefined;
+        this.handlers.onPublish?.(this, stream);
+        return stream;
+    }
+
+    /**
+     * Subscribes to "app/streamName", which may not be published yet
+     */
+    play(streamName: string): LiveStream {
+        this.stop();
+        this.stream = this.streams.subscribe(
+            streamKey(this.app, streamName),
+            this,
+        );
+        this.role = "player";
+        this.handlers.onPlay?.(this, this.stream);
+        return this.stream;
+    }
+
+    /**
+     * Leaves the stream this session publishes or plays
+     */
+    stop(): void {
+        if (!this.stream) {
+            return;
+        }
+        const stream = this.stream;
+        if (this.role == "publisher") {
+            this.streams.unpublish(stream.name, this);
+            this.callHandler(
+                "onUnpublish",
+                () => this.handlers.onUnpublish?.(this, stream),
+            );
+            this.events.emit("unpublish", this, stream);
+        } else {
+            this.streams.unsubscribe(stream.name, this);
+            this.playQueue = [];
+            this.callHandler(
+                "onStop",
+                () => this.handlers.onStop?.(this, stream),
+            );
+            this.events.emit("stop", this, stream);
+        }
+        this.stream = undefined;
+        this.role = undefined;
+    }
+
+    /**
+     * Queues a message of the played stream
+     */
+    write(message: Message): void {
+        if (this.closed) {
+            return;
+        }
+        if (this.playQueue.length >= MAX_QUEUED_MESSAGES) {
+            console.warn(
+                `[SESSION ${this.id}] Player too slow, dropping message type ${message.header.type}`,
+            );
+            this.media.drop(message);
+            return;
+        }
+        this.media.record(message);
+        this.playQueue.push(message);
+        this.flush();
+    }
+
+    onPublish(stream: LiveStream): void {
+        sendCommandAMF0(this.writer, "onStatus", 0, null, {
+            level: "status",
+            code: "NetStream.Play.PublishNotify",
+            description: `${stream.name} is now published.`,
+        }).catch(() => {});
+    }
+
+    onUnpublish(stream: LiveStream): void {
+        sendCommandAMF0(this.writer, "onStatus", 0, null, {
+            level: "status",
+            code: "NetStream.Play.UnpublishNotify",
+            description: `${stream.name} is now unpublished.`,
+        }).catch(() => {});
+    }
+
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.stop();
+        try {
+            this.conn.close();
+        } catch {
+            // already closed
+        }
+        console.log(`[SESSION ${this.id}] Closed`);
+        this.callHandler("onClose", () => this.handlers.onClose?.(this));
+        this.events.emit("close", this);
+    }
+
+    /**
+     * Calls a handler on the way out, one that throws must not keep the
+     * session from leaving its stream or closing
+     */
+    private callHandler(name: string, call: () => void) {
+        try {
+            call();
+        } catch (e) {
+            console.error(`[SESSION ${this.id}] ${name} handler failed:`, e);
+        }
+    }
+
+    private async flush() {
+        if (this.flushing) {
+            return;
+        }
+        this.flushing = true;
+        try {
+            while (this.playQueue.length > 0 && !this.closed) {
+                // stay within the bandwidth the player allows
+                await this.flow.waitForWindow();
+                const message = this.playQueue.shift()!;
+                // players expect onMetaData without the @setDataFrame
+                // the publisher wrapped it in
+                const payload = message.header.type == MessageType.DATA_AMF0
+                    ? stripSetDataFrame(message.payload)
+                    : message.payload;
+                await this.writer.writeMessage(
+                    {
+                        type: message.header.type,
+                        payload,
+                        timestamp: message.header.timestamp,
+                    },
+                    chunkStreamIdFor(message.header.type),
+                    STREAM_ID,
+                );
+            }
+        } catch (e) {
+            console.error(`[SESSION ${this.id}] Failed to write:`, e);
+            this.close();
+        } finally {
+            this.flushing = false;
+        }
+    }
+}
+
+/**
+ * Query parameters are not part of the stream name
+ */
+export function streamKey(app: string, streamName: string): string {
+    return `${app}/${streamName.split("?")[0]}`;
+}
@@ -0,0 +1,359 @@
+import { FanOut } from "./fanout.ts";
+import {
+    isKeyframe,
+    isVideoSequenceEnd,
+    isVideoSequenceHeader,
+    parseVideoTag,
+} from "./media.ts";
+import { Message, MessageType } from "./messages.ts";
+import { RtmpSession } from "./session.ts";
+
+// bitrates and frame rates are averaged over the last 5 seconds
+const RATE_WINDOW_MS = 5000;
+
+export type MediaRates = {
+    video_bitrate: number; // bits per second
+    audio_bitrate: number;
+    fps: number;
+    // seconds between the last two keyframes
+    keyframe_interval?: number;
+    dropped_frames: number;
+};
+
+export type SessionStats = MediaRates & {
+    id: number;
+    role?: "publisher" | "player";
+    stream?: string;
+    client_ip: string;
+    uptime: number; // seconds
+    bytes_in: number;
+    bytes_out: number;
+    // times the stream was published again after the first publish
+    reconnects: number;
+};
+
+export type DestinationStats = MediaRates & {
+    stream: string;
+    // the RTMP URL without its stream key
+    destination: string;
+    connected: boolean;
+    uptime: number; // seconds since it connected, 0 while down
+    bytes_out: number;
+    reconnects: number;
+};
+
+export type Stats = {
+    sessions: SessionStats[];
+    destinations: DestinationStats[];
+};
+
+/**
+ * Counts the audio and video frames of a message flow, the frames a
+ * publisher sends or those written to a player or a destination
+ */
+export class MediaStats {
+    private dropped = 0;
+    private lastKeyframe: number | undefined; // message timestamp
+    private keyframeInterval: number | undefined;
+    private readonly startedAt = Date.now();
+    // the frames of the rate window, oldest first
+    private window: { time: number; video: boolean; size: number }[] = [];
+
+    record(message: Message): void {
+        const { type, timestamp } = message.header;
+        if (type == MessageType.VIDEO) {
+            const tag = parseVideoTag(message.payload);
+            if (
+                tag instanceof Error || isVideoSequenceHeader(tag) ||
+                isVideoSequenceEnd(tag)
+            ) {
+                return;
+            }
+            if (isKeyframe(tag)) {
+                if (
+                    this.lastKeyframe !== undefined &&
+                    timestamp > this.lastKeyframe
+                ) {
+                    this.keyframeInterval = (timestamp - this.lastKeyframe) /
+                        1000;
+                }
+                this.lastKeyframe = timestamp;
+            }
+        } else if (type != MessageType.AUDIO) {
+            return;
+        }
+        const now = Date.now();
+        this.window.push({
+            time: now,
+            video: type == MessageType.VIDEO,
+            size: message.payload.length,
+        });
+        this.expire(now);
+    }
+
+    /**
+     * An audio or video frame that was not written
+     */
+    drop(message: Message): void {
+        const { type } = message.header;
+        if (type == MessageType.AUDIO || type == MessageType.VIDEO) {
+            this.dropped++;
+        }
+    }
+
+    rates(): MediaRates {
+        const now = Date.now();
+        this.expire(now);
+        let videoBytes = 0, audioBytes = 0, videoFrames = 0;
+        for (const frame of this.window) {
+            if (frame.video) {
+                videoBytes += frame.size;
+                videoFrames++;
+            } else {
+                audioBytes += frame.size;
+            }
+        }
+        // a flow younger than the window is averaged over its age
+        const seconds = Math.max(
+            Math.min(RATE_WINDOW_MS, now - this.startedAt),
+            1000,
+        ) / 1000;
+        return {
+            video_bitrate: Math.round(videoBytes * 8 / seconds),
+            audio_bitrate: Math.round(audioBytes * 8 / seconds),
+            fps: Math.round(videoFrames / seconds * 100) / 100,
+            keyframe_interval: this.keyframeInterval,
+            dropped_frames: this.dropped,
+        };
+    }
+
+    private expire(now: number) {
+        let expired = 0;
+        while (
+            expired < this.window.length &&
+            now - this.window[expired].time > RATE_WINDOW_MS
+        ) {
+            expired++;
+        }
+        if (expired > 0) {
+            this.window = this.window.slice(expired);
+        }
+    }
+}
+
+/**
+ * The sessions and fan-outs reported by /metrics and /api/stats, shared
+ * like the StreamRegistry by the servers an application restarts
+ */
+export class StatsRegistry {
+    readonly sessions = new Set<RtmpSession>();
+    readonly fanOuts = new Set<FanOut>();
+
+    snapshot(): Stats {
+        const now = Date.now();
+        return {
+            sessions: [...this.sessions].map((session) => ({
+                id: session.id,
+                role: session.role,
+                stream: session.stream?.name,
+                client_ip: session.remoteAddr.hostname,
+                uptime: Math.round((now - session.connectedAt) / 1000),
+                bytes_in: session.conn.bytesIn,
+                bytes_out: session.conn.bytesOut,
+                reconnects: session.role == "publisher" && session.stream
+                    ? Math.max(
+                        session.streams.publishCount(session.stream.name) - 1,
+                        0,
+                    )
+                    : 0,
+                ...session.media.rates(),
+            })),
+            destinations: [...this.fanOuts].flatMap((fanOut) =>
+                fanOut.stats().map((destination) => ({
+                    stream: fanOut.stream.name,
+                    destination: redactStreamKey(destination.url),
+                    connected: destination.connectedAt !== undefined,
+                    uptime: destination.connectedAt !== undefined
+                        ? Math.round((now - destination.connectedAt) / 1000)
+                        : 0,
+                    bytes_out: destination.bytesOut,
+                    reconnects: destination.reconnects,
+                    ...destination.media.rates(),
+                }))
+            ),
+        };
+    }
+}
+
+// name, type, help and value of each metric
+type Metric<T> = [
+    string,
+    "counter" | "gauge",
+    string,
+    (stats: T) => number | undefined,
+];
+
+const SESSION_METRICS: Metric<SessionStats>[] = [
+    [
+        "session_received_bytes_total",
+        "counter",
+        "Bytes received from the client",
+        (s) => s.bytes_in,
+    ],
+    [
+        "session_sent_bytes_total",
+        "counter",
+        "Bytes sent to the client",
+        (s) => s.bytes_out,
+    ],
+    [
+        "session_video_bitrate_bps",
+        "gauge",
+        "Video bitrate",
+        (s) => s.video_bitrate,
+    ],
+    [
+        "session_audio_bitrate_bps",
+        "gauge",
+        "Audio bitrate",
+        (s) => s.audio_bitrate,
+    ],
+    ["session_video_fps", "gauge", "Video frame rate", (s) => s.fps],
+    [
+        "session_keyframe_interval_seconds",
+        "gauge",
+        "Time between the last two keyframes",
+        (s) => s.keyframe_interval,
+    ],
+    [
+        "session_dropped_frames_total",
+        "counter",
+        "Frames dropped for a slow player",
+        (s) => s.dropped_frames,
+    ],
+    [
+        "session_reconnects_total",
+        "counter",
+        "Times the stream was published again",
+        (s) => s.reconnects,
+    ],
+    [
+        "session_uptime_seconds",
+        "gauge",
+        "Time since the client connected",
+        (s) => s.uptime,
+    ],
+];
+
+const DESTINATION_METRICS: Metric<DestinationStats>[] = [
+    [
+        "destination_up",
+        "gauge",
+        "Whether the destination accepted the publish",
+        (d) => d.connected ? 1 : 0,
+    ],
+    [
+        "destination_sent_bytes_total",
+        "counter",
+        "Bytes sent to the destination",
+        (d) => d.bytes_out,
+    ],
+    [
+        "destination_video_bitrate_bps",
+        "gauge",
+        "Video bitrate",
+        (d) => d.video_bitrate,
+    ],
+    [
+        "destination_audio_bitrate_bps",
+        "gauge",
+        "Audio bitrate",
+        (d) => d.audio_bitrate,
+    ],
+    ["destination_video_fps", "gauge", "Video frame rate", (d) => d.fps],
+    [
+        "destination_keyframe_interval_seconds",
+        "gauge",
+        "Time between the last two keyframes",
+        (d) => d.keyframe_interval,
+    ],
+    [
+        "destination_dropped_frames_total",
+        "counter",
+        "Frames dropped while the destination was slow or down",
+        (d) => d.dropped_frames,
+    ],
+    [
+        "destination_reconnects_total",
+        "counter",
+        "Times the destination was reconnected",
+        (d) => d.reconnects,
+    ],
+    [
+        "destination_uptime_seconds",
+        "gauge",
+        "Time since the destination connected",
+        (d) => d.uptime,
+    ],
+];
+
+/**
+ * The stats in the Prometheus text exposition format
+ *
+ * https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+export function formatPrometheus(stats: Stats): string {
+    const lines: string[] = [];
+    const write = <T>(
+        metrics: Metric<T>[],
+        items: T[],
+        labels: (item: T) => Record<string, string | undefined>,
+    ) => {
+        for (const [name, type, help, value] of metrics) {
+            lines.push(
+                `# HELP streamany_${name} ${help}`,
+                `# TYPE streamany_${name} ${type}`,
+            );
+            for (const item of items) {
+                const v = value(item);
+                if (v !== undefined) {
+                    lines.push(
+                        `streamany_${name}${formatLabels(labels(item))} ${v}`,
+                    );
+                }
+            }
+        }
+    };
+    write(SESSION_METRICS, stats.sessions, (s) => ({
+        session: String(s.id),
+        role: s.role,
+        stream: s.stream,
+        client_ip: s.client_ip,
+    }));
+    write(DESTINATION_METRICS, stats.destinations, (d) => ({
+        stream: d.stream,
+        destination: d.destination,
+    }));
+    return lines.join("\n") + "\n";
+}
+
+function formatLabels(labels: Record<string, string | undefined>) {
+    const pairs = Object.entries(labels)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) =>
+            `${name}="${
+                value!.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+                    .replace(/\n/g, "\\n")
+            }"`
+        );
+    return `{${pairs.join(",")}}`;
+}
+
+/**
+ * rtmp://host/app/key => rtmp://host/app/***, keys must not leak into
+ * dashboards
+ */
+function redactStreamKey(url: string) {
+    const slash = url.lastIndexOf("/");
+    return slash > url.indexOf("//") + 1 ? `${url.slice(0, slash)}/***` : url;
+}
@@ -0,0 +1,134 @@
+import { GopCache } from "./gop.ts";
+import { Message } from "./messages.ts";
+import { RtmpSession } from "./session.ts";
+
+/**
+ * Receives the messages of a live stream, a playing session or a push session
+ */
+export interface Subscriber {
+    write(message: Message): void;
+    // the stream got a publisher
+    onPublish?(stream: LiveStream): void;
+    // the publisher left, the subscriber stays attached for the next one
+    onUnpublish?(stream: LiveStream): void;
+}
+
+/**
+ * A stream name, with the publisher feeding it and its subscribers
+ */
+export class LiveStream {
+    publisher: RtmpSession | undefined;
+    readonly subscribers = new Set<Subscriber>();
+    readonly cache: GopCache;
+
+    constructor(readonly name: string, gopCacheSize: number) {
+        this.cache = new GopCache(gopCacheSize);
+    }
+
+    broadcast(message: Message): void {
+        for (const subscriber of this.subscribers) {
+            subscriber.write(message);
+        }
+    }
+}
+
+/**
+ * All the streams of a server, keyed by "app/streamName"
+ */
+export class StreamRegistry {
+    private readonly streams = new Map<string, LiveStream>();
+    // times each name was published, they outlive the streams
+    private readonly publishes = new Map<string, number>();
+
+    /**
+     * @param gopCacheSize GOPs kept per stream for subscribers joining late
+     */
+    constructor(readonly gopCacheSize = 1) {}
+
+    get(name: string): LiveStream | undefined {
+        return this.streams.get(name);
+    }
+
+    list(): LiveStream[] {
+        return [...this.streams.values()];
+    }
+
+    publish(name: string, session: RtmpSession): LiveStream | Error {
+        const stream = this.getOrCreate(name);
+        if (stream.publisher && stream.publisher != session) {
+            return new Error(`${name} is already being published`);
+        }
+        stream.publisher = session;
+        this.publishes.set(name, (this.publishes.get(name) ?? 0) + 1);
+        console.log(
+            `[STREAMS] ${name} published by session ${session.id}, ${stream.subscribers.size} subscribers`,
+        );
+        for (const subscriber of stream.subscribers) {
+            subscriber.onPublish?.(stream);
+        }
+        return stream;
+    }
+
+    /**
+     * How often the stream was published, a publisher that reconnects
+     * publishes it again
+     */
+    publishCount(name: string): number {
+        return this.publishes.get(name) ?? 0;
+    }
+
+    unpublish(name: string, session: RtmpSession): void {
+        const stream = this.streams.get(name);
+        if (!stream || stream.publisher != session) {
+            return;
+        }
+        stream.publisher = undefined;
+        // the next publisher may use other codec settings
+        stream.cache.clear();
+        console.log(`[STREAMS] ${name} unpublished by session ${session.id}`);
+        for (const subscriber of stream.subscribers) {
+            subscriber.onUnpublish?.(stream);
+        }
+        this.deleteIfUnused(stream);
+    }
+
+    /**
+     * Subscribers may attach before the stream is published, those attaching
+     * to a live stream first get its cached headers and last keyframes
+     */
+    subscribe(name: string, subscriber: Subscriber): LiveStream {
+        const stream = this.getOrCreate(name);
+        if (stream.publisher) {
+            stream.cache.replay(subscriber);
+        }
+        stream.subscribers.add(subscriber);
+        console.log(
+            `[STREAMS] ${name} has ${stream.subscribers.size} subscribers`,
+        );
+        return stream;
+    }
+
+    unsubscribe(name: string, subscriber: Subscriber): void {
+        const stream = this.streams.get(name);
+        if (!stream) {
+            return;
+        }
+        stream.subscribers.delete(subscriber);
+        this.deleteIfUnused(stream);
+    }
+
+    private getOrCreate(name: string) {
+        let stream = this.streams.get(name);
+        if (!stream) {
+            stream = new LiveStream(name, this.gopCacheSize);
+            this.streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    private deleteIfUnused(stream: LiveStream) {
+        if (!stream.publisher && stream.subscribers.size == 0) {
+            this.streams.delete(stream.name);
+        }
+    }
+}
@@ -0,0 +1,360 @@
+import { concat } from "@std/bytes/concat";
+import { AvcConfig } from "./media.ts";
+
+/**
+ * MPEG-2 transport stream, ISO/IEC 13818-1, with one program carrying
+ * H.264 and AAC the way HLS expects them
+ */
+
+const PACKET_SIZE = 188;
+const PAT_PID = 0x0000;
+const PMT_PID = 0x1000;
+const VIDEO_PID = 0x0100;
+const AUDIO_PID = 0x0101;
+// Table 2-34
+const STREAM_TYPE_H264 = 0x1b;
+const STREAM_TYPE_AAC = 0x0f;
+const VIDEO_STREAM_ID = 0xe0;
+const AUDIO_STREAM_ID = 0xc0;
+
+const START_CODE = [0, 0, 0, 1];
+// access unit delimiter, any slice type
+const AUD = [...START_CODE, 0x09, 0xf0];
+
+/**
+ * Writes TS packets, keeping the continuity counter of every PID across
+ * the segments cut from one stream
+ */
+export class TsMuxer {
+    private readonly continuity = new Map<number, number>();
+
+    /**
+     * PAT and PMT, each segment starts with them
+     */
+    tables(hasVideo: boolean, hasAudio: boolean): Uint8Array {
+        const pat = section(0x00, [
+            0x00,
+            0x01, // program_number
+            0xe0 | (PMT_PID >> 8),
+            PMT_PID & 0xff,
+        ]);
+
+        const streams: number[] = [];
+        if (hasVideo) {
+            streams.push(
+                STREAM_TYPE_H264,
+                0xe0 | (VIDEO_PID >> 8),
+                VIDEO_PID & 0xff,
+                0xf0,
+                0x00,
+            );
+        }
+        if (hasAudio) {
+            streams.push(
+                STREAM_TYPE_AAC,
+                0xe0 | (AUDIO_PID >> 8),
+                AUDIO_PID & 0xff,
+                0xf0,
+                0x00,
+            );
+        }
+        const pcrPid = hasVideo ? VIDEO_PID : AUDIO_PID;
+        const pmt = section(0x02, [
+            0xe0 | (pcrPid >> 8),
+            pcrPid & 0xff,
+            0xf0,
+            0x00, // program_info_length
+            ...streams,
+        ]);
+
+        // a pointer_field of 0 puts the section right after it
+        return concat([
+            this.packets(PAT_PID, new Uint8Array([0, ...pat]), {}),
+            this.packets(PMT_PID, new Uint8Array([0, ...pmt]), {}),
+        ]);
+    }
+
+    /**
+     * One access unit in Annex B, the PCR goes with video
+     *
+     * @param dts milliseconds
+     * @param compositionTime milliseconds from dts to pts
+     */
+    video(
+        dts: number,
+        compositionTime: number,
+        keyframe: boolean,
+        annexB: Uint8Array,
+    ): Uint8Array {
+        const pes = pesPacket(
+            VIDEO_STREAM_ID,
+            (dts + compositionTime) * 90,
+            dts * 90,
+            annexB,
+        );
+        return this.packets(VIDEO_PID, pes, {
+            pcr: dts * 90,
+            randomAccess: keyframe,
+        });
+    }
+
+    /**
+     * One ADTS frame, with the PCR when there is no video
+     */
+    audio(pts: number, adts: Uint8Array, withPcr: boolean): Uint8Array {
+        const pes = pesPacket(AUDIO_STREAM_ID, pts * 90, undefined, adts);
+        return this.packets(AUDIO_PID, pes, {
+            pcr: withPcr ? pts * 90 : undefined,
+            randomAccess: withPcr,
+        });
+    }
+
+    private packets(
+        pid: number,
+        payload: Uint8Array,
+        { pcr, randomAccess }: { pcr?: number; randomAccess?: boolean },
+    ): Uint8Array {
+        const out: Uint8Array[] = [];
+        let offset = 0;
+        for (let i = 0; offset < payload.length || i == 0; i++) {
+            const packet = new Uint8Array(PACKET_SIZE);
+            const cc = ((this.continuity.get(pid) ?? -1) + 1) & 0x0f;
+            this.continuity.set(pid, cc);
+
+            // the adaptation field carries the PCR and the stuffing
+            let adaptation: number[] | undefined;
+            if (i == 0 && (pcr !== undefined || randomAccess)) {
+                adaptation = [
+                    (randomAccess ? 0x40 : 0) | (pcr !== undefined ? 0x10 : 0),
+                ];
+                if (pcr !== undefined) {
+                    adaptation.push(...encodePcr(pcr));
+                }
+            }
+            const space = PACKET_SIZE - 4 -
+                (adaptation ? adaptation.length + 1 : 0);
+            const size = Math.min(space, payload.length - offset);
+            if (size < space) {
+                // the length byte alone stuffs 1 byte
+                let stuffing = space - size;
+                if (!adaptation) {
+                    adaptation = [];
+                    stuffing--;
+                    if (stuffing > 0) {
+                        adaptation.push(0x00);
+                        stuffing--;
+                    }
+                }
+                adaptation.push(...new Array(stuffing).fill(0xff));
+            }
+
+            packet[0] = 0x47;
+            // payload_unit_start_indicator on the first packet
+            packet[1] = (i == 0 ? 0x40 : 0) | ((pid >> 8) & 0x1f);
+            packet[2] = pid & 0xff;
+            packet[3] = (adaptation ? 0x30 : 0x10) | cc;
+            let position = 4;
+            if (adaptation) {
+                packet[position++] = adaptation.length;
+                packet.set(adaptation, position);
+                position += adaptation.length;
+            }
+            packet.set(payload.subarray(offset, offset + size), position);
+            offset += size;
+            out.push(packet);
+        }
+        return concat(out);
+    }
+}
+
+/**
+ * Converts the length prefixed NAL units of an FLV AVC frame to Annex B,
+ * with an access unit delimiter and, on keyframes, the SPS and PPS
+ */
+export function avcToAnnexB(
+    config: AvcConfig,
+    data: Uint8Array,
+    keyframe: boolean,
+): Uint8Array | Error {
+    const nalUnits: Uint8Array[] = [];
+    let position = 0;
+    while (position + config.nalUnitLength <= data.length) {
+        let length = 0;
+        for (let i = 0; i < config.nalUnitLength; i++) {
+            length = length * 256 + data[position++];
+        }
+        if (position + length > data.length) {
+            return new Error("NAL unit runs past the end of the frame");
+        }
+        nalUnits.push(data.subarray(position, position + length));
+        position += length;
+    }
+
+    const parts: Uint8Array[] = [new Uint8Array(AUD)];
+    const hasParameterSets = nalUnits.some((nal) => (nal[0] & 0x1f) == 7);
+    if (keyframe && !hasParameterSets) {
+        for (const nal of [...config.sps, ...config.pps]) {
+            parts.push(new Uint8Array(START_CODE), nal);
+        }
+    }
+    for (const nal of nalUnits) {
+        // ours replaces any the encoder wrote
+        if ((nal[0] & 0x1f) == 9) {
+            continue;
+        }
+        parts.push(new Uint8Array(START_CODE), nal);
+    }
+    return concat(parts);
+}
+
+/**
+ * Prefixes a raw AAC frame with the ADTS header built from the stream's
+ * AudioSpecificConfig, ISO/IEC 14496-3 1.A.2.2
+ */
+export function aacToAdts(
+    audioSpecificConfig: Uint8Array,
+    frame: Uint8Array,
+): Uint8Array | Error {
+    if (audioSpecificConfig.length < 2) {
+        return new Error("AudioSpecificConfig too short");
+    }
+    let objectType = audioSpecificConfig[0] >> 3;
+    const frequencyIndex = ((audioSpecificConfig[0] & 0x07) << 1) |
+        (audioSpecificConfig[1] >> 7);
+    const channelConfiguration = (audioSpecificConfig[1] >> 3) & 0x0f;
+    // HE-AAC is carried as its AAC LC core, decoders find the SBR/PS in it
+    if (objectType == 5 || objectType == 29) {
+        objectType = 2;
+    }
+    if (objectType < 1 || objectType > 4 || frequencyIndex > 12) {
+        return new Error(
+            `AAC object type ${objectType} or sample rate index ${frequencyIndex} cannot be ADTS`,
+        );
+    }
+
+    const length = 7 + frame.length;
+    const adts = new Uint8Array(length);
+    adts.set([
+        0xff,
+        0xf1, // MPEG-4, no CRC
+        ((objectType - 1) << 6) | (frequencyIndex << 2) |
+        (channelConfiguration >> 2),
+        ((channelConfiguration & 0x03) << 6) | (length >> 11),
+        (length >> 3) & 0xff,
+        ((length & 0x07) << 5) | 0x1f, // buffer fullness 0x7ff, VBR
+        0xfc, // one raw data block
+    ]);
+    adts.set(frame, 7);
+    return adts;
+}
+
+/**
+ * A PSI section with its header and CRC, for program 1
+ */
+function section(tableId: number, body: number[]): number[] {
+    // transport_stream_id or program_number, version 0, section 0 of 0
+    const syntax = [0x00, 0x01, 0xc1, 0x00, 0x00];
+    const length = syntax.length + body.length + 4;
+    const bytes = [
+        tableId,
+        0xb0 | (length >> 8),
+        length & 0xff,
+        ...syntax,
+        ...body,
+    ];
+    const crc = crc32(bytes);
+    return [
+        ...bytes,
+        crc >>> 24,
+        (crc >> 16) & 0xff,
+        (crc >> 8) & 0xff,
+        crc & 0xff,
+    ];
+}
+
+function pesPacket(
+    streamId: number,
+    pts: number,
+    dts: number | undefined,
+    data: Uint8Array,
+): Uint8Array {
+    const withDts = dts !== undefined && dts != pts;
+    const header = [
+        0x00,
+        0x00,
+        0x01,
+        streamId,
+        0x00,
+        0x00, // PES_packet_length, filled in below
+        0x80, // marker bits
+        withDts ? 0xc0 : 0x80, // PTS_DTS_flags
+        withDts ? 10 : 5,
+        ...encodeTimestamp(withDts ? 0x3 : 0x2, pts),
+        ...(withDts ? encodeTimestamp(0x1, dts) : []),
+    ];
+    // 0 is allowed for video, whose access units may exceed the 16 bits
+    const length = header.length - 6 + data.length;
+    if (streamId != VIDEO_STREAM_ID && length <= 0xffff) {
+        header[4] = length >> 8;
+        header[5] = length & 0xff;
+    }
+    const pes = new Uint8Array(header.length + data.length);
+    pes.set(header);
+    pes.set(data, header.length);
+    return pes;
+}
+
+/**
+ * A 33 bit PTS or DTS in 90kHz units between marker bits
+ */
+function encodeTimestamp(prefix: number, timestamp: number): number[] {
+    const value = Math.floor(timestamp) % 2 ** 33;
+    const high = Math.floor(value / 2 ** 30) & 0x07;
+    const middle = Math.floor(value / 2 ** 15) & 0x7fff;
+    const low = value & 0x7fff;
+    return [
+        (prefix << 4) | (high << 1) | 1,
+        middle >> 7,
+        ((middle & 0x7f) << 1) | 1,
+        low >> 7,
+        ((low & 0x7f) << 1) | 1,
+    ];
+}
+
+/**
+ * program_clock_reference_base, reserved bits and a 0 extension
+ */
+function encodePcr(pcr: number): number[] {
+    const base = Math.floor(pcr) % 2 ** 33;
+    return [
+        Math.floor(base / 2 ** 25) & 0xff,
+        Math.floor(base / 2 ** 17) & 0xff,
+        Math.floor(base / 2 ** 9) & 0xff,
+        Math.floor(base / 2) & 0xff,
+        ((base & 1) << 7) | 0x7e,
+        0x00,
+    ];
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32/MPEG-2: polynomial 0x04C11DB7, no reflection, no final xor
+ */
+function crc32(bytes: number[]): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let i = 0; i < 256; i++) {
+            let crc = i << 24;
+            for (let bit = 0; bit < 8; bit++) {
+                crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+            }
+            crcTable[i] = crc >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+    }
+    return crc;
+}
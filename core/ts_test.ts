@@ -0,0 +1,214 @@
+import { assert, assertEquals } from "@std/assert";
+import { concat } from "@std/bytes/concat";
+import { AvcConfig } from "./media.ts";
+import { aacToAdts, avcToAnnexB, TsMuxer } from "./ts.ts";
+
+type Packet = {
+    pid: number;
+    unitStart: boolean;
+    continuity: number;
+    adaptation?: Uint8Array;
+    payload: Uint8Array;
+};
+
+function parsePackets(bytes: Uint8Array): Packet[] {
+    assertEquals(bytes.length % 188, 0);
+    const packets: Packet[] = [];
+    for (let offset = 0; offset < bytes.length; offset += 188) {
+        const packet = bytes.subarray(offset, offset + 188);
+        assertEquals(packet[0], 0x47);
+        let position = 4;
+        let adaptation: Uint8Array | undefined;
+        if (packet[3] & 0x20) {
+            adaptation = packet.subarray(5, 5 + packet[4]);
+            position += 1 + packet[4];
+        }
+        packets.push({
+            pid: ((packet[1] & 0x1f) << 8) | packet[2],
+            unitStart: (packet[1] & 0x40) != 0,
+            continuity: packet[3] & 0x0f,
+            adaptation,
+            payload: packet.subarray(position),
+        });
+    }
+    return packets;
+}
+
+// CRC-32/MPEG-2 bit by bit, a section followed by its CRC leaves 0
+function crcResidue(bytes: Uint8Array) {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        for (let bit = 7; bit >= 0; bit--) {
+            const top = (crc >>> 31) ^ ((byte >> bit) & 1);
+            crc = ((crc << 1) ^ (top ? 0x04c11db7 : 0)) >>> 0;
+        }
+    }
+    return crc;
+}
+
+// the 33 bit timestamp of a PTS or DTS field
+function readTimestamp(b: Uint8Array, position: number) {
+    return ((b[position] >> 1) & 0x07) * 2 ** 30 +
+        (b[position + 1] << 22 | (b[position + 2] >> 1) << 15 |
+            b[position + 3] << 7 | b[position + 4] >> 1);
+}
+
+Deno.test("TsMuxer writes the PAT and PMT with their CRC", () => {
+    const [pat, pmt] = parsePackets(new TsMuxer().tables(true, true));
+
+    assertEquals([pat.pid, pat.unitStart], [0, true]);
+    // pointer_field, then the PAT ffmpeg writes for the same program
+    assertEquals(
+        Array.from(pat.payload.subarray(0, 17)),
+        [
+            0x00,
+            ...[0x00, 0xb0, 0x0d, 0x00, 0x01, 0xc1, 0x00, 0x00],
+            ...[0x00, 0x01, 0xf0, 0x00, 0x2a, 0xb1, 0x04, 0xb2],
+        ],
+    );
+    // padded with 0xff
+    assert(pat.payload.subarray(17).every((b) => b == 0xff));
+
+    assertEquals(pmt.pid, 0x1000);
+    const length = ((pmt.payload[2] & 0x0f) << 8) | pmt.payload[3];
+    const section = pmt.payload.subarray(1, 4 + length);
+    assertEquals(section[0], 0x02);
+    assertEquals(crcResidue(section), 0);
+    // H.264 on 0x100 then AAC on 0x101, after the PCR PID and program info
+    assertEquals(
+        Array.from(section.subarray(12, 22)),
+        [0x1b, 0xe1, 0x00, 0xf0, 0x00, 0x0f, 0xe1, 0x01, 0xf0, 0x00],
+    );
+
+    const audioOnly = parsePackets(new TsMuxer().tables(false, true))[1];
+    // the PCR is on the audio PID
+    assertEquals(Array.from(audioOnly.payload.subarray(9, 11)), [0xe1, 0x01]);
+    assertEquals(crcResidue(audioOnly.payload.subarray(1, 4 + 18)), 0);
+});
+
+Deno.test("TsMuxer counts continuity per PID across calls", () => {
+    const muxer = new TsMuxer();
+    const first = parsePackets(muxer.tables(true, true));
+    const second = parsePackets(muxer.tables(true, true));
+    assertEquals(first.map((p) => p.continuity), [0, 0]);
+    assertEquals(second.map((p) => p.continuity), [1, 1]);
+
+    for (let i = 0; i < 16; i++) {
+        muxer.audio(i * 23, new Uint8Array(10), false);
+    }
+    const wrapped = parsePackets(muxer.audio(0, new Uint8Array(10), false));
+    assertEquals(wrapped[0].continuity, 0);
+});
+
+Deno.test("TsMuxer stuffs short payloads in the adaptation field", () => {
+    const muxer = new TsMuxer();
+    // PES header of 14 bytes: 183 bytes fill the packet but for one
+    // byte, the adaptation field length alone
+    const one = parsePackets(muxer.audio(0, new Uint8Array(169), false));
+    assertEquals(one.length, 1);
+    assertEquals(one[0].adaptation!.length, 0);
+    assertEquals(one[0].payload.length, 183);
+
+    // two bytes short, a length and a flags byte
+    const two = parsePackets(muxer.audio(0, new Uint8Array(168), false));
+    assertEquals(Array.from(two[0].adaptation!), [0x00]);
+
+    const more = parsePackets(muxer.audio(0, new Uint8Array(10), false));
+    assertEquals(more[0].adaptation![0], 0x00);
+    assert(more[0].adaptation!.subarray(1).every((b) => b == 0xff));
+    assertEquals(more[0].payload.length, 14 + 10);
+
+    // a full packet has no adaptation field
+    const full = parsePackets(muxer.audio(0, new Uint8Array(170), false));
+    assertEquals(full[0].adaptation, undefined);
+});
+
+Deno.test("TsMuxer splits PES packets and carries the PCR on keyframes", () => {
+    const data = new Uint8Array(1000).map((_, i) => i & 0xff);
+    const packets = parsePackets(
+        new TsMuxer().video(1000, 80, true, data),
+    );
+    assertEquals(packets.map((p) => p.unitStart), [
+        true,
+        ...new Array(packets.length - 1).fill(false),
+    ]);
+    assertEquals(
+        packets.map((p) => p.continuity),
+        packets.map((_, i) => i),
+    );
+    assert(packets.every((p) => p.pid == 0x100));
+
+    // random access and PCR flags, then the PCR of the DTS in 90kHz
+    const adaptation = packets[0].adaptation!;
+    assertEquals(adaptation[0], 0x50);
+    const pcr = adaptation[1] * 2 ** 25 + adaptation[2] * 2 ** 17 +
+        adaptation[3] * 2 ** 9 + adaptation[4] * 2 + (adaptation[5] >> 7);
+    assertEquals(pcr, 1000 * 90);
+
+    const pes = concat(packets.map((p) => p.payload));
+    assertEquals(Array.from(pes.subarray(0, 4)), [0, 0, 1, 0xe0]);
+    // video may leave PES_packet_length 0
+    assertEquals([pes[4], pes[5]], [0, 0]);
+    // PTS and DTS
+    assertEquals([pes[7], pes[8]], [0xc0, 10]);
+    assertEquals(pes[9] >> 4, 0x3);
+    assertEquals(readTimestamp(pes, 9), 1080 * 90);
+    assertEquals(pes[14] >> 4, 0x1);
+    assertEquals(readTimestamp(pes, 14), 1000 * 90);
+    assertEquals(pes.subarray(19), data);
+});
+
+Deno.test("TsMuxer writes audio PES packets with their length", () => {
+    const packets = parsePackets(
+        new TsMuxer().audio(2 ** 24, new Uint8Array(50), true),
+    );
+    assertEquals(packets[0].pid, 0x101);
+    assertEquals(packets[0].adaptation![0], 0x50);
+    const pes = packets[0].payload;
+    assertEquals(Array.from(pes.subarray(0, 4)), [0, 0, 1, 0xc0]);
+    assertEquals((pes[4] << 8) | pes[5], 3 + 5 + 50);
+    // PTS only, past 32 bits in 90kHz
+    assertEquals([pes[7], pes[8]], [0x80, 5]);
+    assertEquals(pes[9] >> 4, 0x2);
+    assertEquals(readTimestamp(pes, 9), 2 ** 24 * 90);
+});
+
+Deno.test("avcToAnnexB and aacToAdts", () => {
+    const config: AvcConfig = {
+        profile: 100,
+        compatibility: 0,
+        level: 31,
+        nalUnitLength: 4,
+        sps: [new Uint8Array([0x67, 1])],
+        pps: [new Uint8Array([0x68, 2])],
+        width: 16,
+        height: 16,
+        codec: "avc1.64001f",
+    };
+    // an AUD the encoder wrote and an IDR slice
+    const frame = new Uint8Array([0, 0, 0, 2, 0x09, 0xf0, 0, 0, 0, 2, 0x65, 3]);
+    const annexB = avcToAnnexB(config, frame, true);
+    assert(!(annexB instanceof Error));
+    assertEquals(
+        Array.from(annexB),
+        [
+            ...[0, 0, 0, 1, 0x09, 0xf0],
+            ...[0, 0, 0, 1, 0x67, 1],
+            ...[0, 0, 0, 1, 0x68, 2],
+            ...[0, 0, 0, 1, 0x65, 3],
+        ],
+    );
+    assert(
+        avcToAnnexB(config, new Uint8Array([0, 0, 0, 9, 1]), false) instanceof
+            Error,
+    );
+
+    // AAC LC, 44100 Hz, stereo
+    const adts = aacToAdts(new Uint8Array([0x12, 0x10]), new Uint8Array(10));
+    assert(!(adts instanceof Error));
+    assertEquals(
+        Array.from(adts.subarray(0, 7)),
+        [0xff, 0xf1, 0x50, 0x80, 0x02, 0x3f, 0xfc],
+    );
+    assertEquals(adts.length, 17);
+});
@@ -0,0 +1,191 @@
+import { StreamMetadata } from "./metadata.ts";
+import { Recording } from "./recorder.ts";
+import { RtmpSession } from "./session.ts";
+
+export type WebhookEvent =
+    | "publish_start"
+    | "publish_stop"
+    | "play_start"
+    | "play_stop"
+    | "destination_up"
+    | "destination_down"
+    | "recording_finished";
+
+export type WebhookOptions = {
+    // every URL receives the events
+    urls: string[];
+    // the events sent, all of them by default
+    events?: WebhookEvent[];
+    // signs the body with HMAC-SHA256, see Webhooks
+    secret?: string;
+    // deliveries, including the first, before an event is given up
+    maxAttempts?: number;
+};
+
+/**
+ * The JSON body of a webhook request
+ */
+export type WebhookPayload = {
+    event: WebhookEvent;
+    timestamp: string; // ISO 8601, when the event happened
+    stream: string; // "app/streamName"
+    session_id?: number;
+    client_ip?: string;
+    // the publisher's onMetaData without the raw properties
+    metadata?: Omit<StreamMetadata, "properties">;
+    // the RTMP URL of destination_up and destination_down
+    destination?: string;
+    recording?: Recording;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+// a failed delivery is retried after 1s, 2s, 4s ... up to 30s
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * POSTs stream lifecycle events as JSON to HTTP endpoints, for
+ * announcements, scene switching or archiving.
+ *
+ * With a secret, the X-Streamany-Signature header carries
+ * "sha256=" and the hex HMAC-SHA256 of the body under that secret.
+ * Deliveries failing on the network, a timeout, a 5xx or a 429 are
+ * retried with backoff, other responses are final.
+ *
+ * Usage:
+ *   const webhooks = new Webhooks({ urls: ["http://localhost:8080/hook"] });
+ *   webhooks.send({ event: "publish_start", ...webhooks.describe(session) });
+ */
+export class Webhooks {
+    private key: Promise<CryptoKey> | undefined;
+    private readonly deliveries = new Set<Promise<void>>();
+
+    constructor(readonly options: WebhookOptions) {
+        if (options.secret) {
+            this.key = crypto.subtle.importKey(
+                "raw",
+                new TextEncoder().encode(options.secret),
+                { name: "HMAC", hash: "SHA-256" },
+                false,
+                ["sign"],
+            );
+        }
+    }
+
+    /**
+     * The stream, client and metadata fields of a session's events
+     */
+    describe(
+        session: RtmpSession,
+    ): Omit<WebhookPayload, "event" | "timestamp"> {
+        const { properties: _, ...metadata } = session.metadata ??
+            { properties: {} };
+        return {
+            stream: session.stream?.name ?? "",
+            session_id: session.id,
+            client_ip: session.remoteAddr.hostname,
+            metadata: session.metadata ? metadata : undefined,
+        };
+    }
+
+    /**
+     * Delivers the event to every URL in the background
+     */
+    send(payload: Omit<WebhookPayload, "timestamp">): void {
+        const { events } = this.options;
+        if (events && !events.includes(payload.event)) {
+            return;
+        }
+        const body = JSON.stringify({
+            ...payload,
+            timestamp: new Date().toISOString(),
+        });
+        for (const url of this.options.urls) {
+            const delivery = this.deliver(url, payload.event, body);
+            this.deliveries.add(delivery);
+            delivery.finally(() => this.deliveries.delete(delivery));
+        }
+    }
+
+    /**
+     * Resolves once the events sent so far are delivered or given up
+     */
+    async flush(): Promise<void> {
+        await Promise.all(this.deliveries);
+    }
+
+    private async deliver(url: string, event: WebhookEvent, body: string) {
+        const headers: Record<string, string> = {
+            "content-type": "application/json",
+            "x-streamany-event": event,
+        };
+        if (this.key) {
+            const signature = await crypto.subtle.sign(
+                "HMAC",
+                await this.key,
+                new TextEncoder().encode(body),
+            );
+            headers["x-streamany-signature"] = `sha256=${hex(signature)}`;
+        }
+
+        const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            if (attempt > 0) {
+                const delay = Math.min(
+                    RETRY_DELAY_MS * 2 ** (attempt - 1),
+                    MAX_RETRY_DELAY_MS,
+                );
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+            const status = await post(url, headers, body);
+            if (typeof status == "number" && status >= 200 && status < 300) {
+                console.log(`[WEBHOOK] ${event} delivered to ${url}`);
+                return;
+            }
+            if (typeof status == "number" && status < 500 && status != 429) {
+                console.warn(
+                    `[WEBHOOK] ${event} rejected by ${url}: HTTP ${status}`,
+                );
+                return;
+            }
+            console.warn(
+                `[WEBHOOK] ${event} to ${url} failed, attempt ${
+                    attempt + 1
+                }/${maxAttempts}: ${
+                    status instanceof Error ? status.message : `HTTP ${status}`
+                }`,
+            );
+        }
+        console.error(`[WEBHOOK] Gave up delivering ${event} to ${url}`);
+    }
+}
+
+/**
+ * The status the endpoint answered with, an Error when it did not
+ */
+async function post(
+    url: string,
+    headers: Record<string, string>,
+    body: string,
+): Promise<number | Error> {
+    try {
+        const response = await fetch(url, {
+            method: "POST",
+            headers,
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        await response.body?.cancel();
+        return response.status;
+    } catch (e) {
+        return e as Error;
+    }
+}
+
+function hex(bytes: ArrayBuffer) {
+    return Array.from(
+        new Uint8Array(bytes),
+        (b) => b.toString(16).padStart(2, "0"),
+    ).join("");
+}
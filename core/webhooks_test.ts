@@ -0,0 +1,123 @@
+import { assert, assertEquals } from "@std/assert";
+import { Webhooks } from "./webhooks.ts";
+
+type Received = { headers: Headers; body: string };
+
+/**
+ * An endpoint answering with the statuses in turn, then 200
+ */
+function endpoint(statuses: number[] = []) {
+    const received: Received[] = [];
+    const server = Deno.serve(
+        { hostname: "127.0.0.1", port: 0, onListen() {} },
+        async (req) => {
+            received.push({ headers: req.headers, body: await req.text() });
+            return new Response(null, { status: statuses.shift() ?? 200 });
+        },
+    );
+    return {
+        url: `http://127.0.0.1:${server.addr.port}/hook`,
+        received,
+        shutdown: () => server.shutdown(),
+    };
+}
+
+Deno.test("Webhooks sign the body with HMAC-SHA256", async () => {
+    const hook = endpoint();
+    const webhooks = new Webhooks({ urls: [hook.url], secret: "s3cret" });
+    webhooks.send({ event: "publish_start", stream: "live/test" });
+    await webhooks.flush();
+    await hook.shutdown();
+
+    assertEquals(hook.received.length, 1);
+    const { headers, body } = hook.received[0];
+    assertEquals(headers.get("content-type"), "application/json");
+    assertEquals(headers.get("x-streamany-event"), "publish_start");
+    const payload = JSON.parse(body);
+    assertEquals([payload.event, payload.stream], [
+        "publish_start",
+        "live/test",
+    ]);
+    assert(!isNaN(Date.parse(payload.timestamp)));
+
+    const signature = headers.get("x-streamany-signature")!;
+    assert(signature.startsWith("sha256="));
+    const key = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode("s3cret"),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["verify"],
+    );
+    const bytes = new Uint8Array(
+        signature.slice(7).match(/../g)!.map((h) => parseInt(h, 16)),
+    );
+    assert(
+        await crypto.subtle.verify(
+            "HMAC",
+            key,
+            bytes,
+            new TextEncoder().encode(body),
+        ),
+    );
+});
+
+Deno.test("Webhooks without a secret are not signed", async () => {
+    const hook = endpoint();
+    const webhooks = new Webhooks({ urls: [hook.url] });
+    webhooks.send({ event: "play_start", stream: "live/test" });
+    await webhooks.flush();
+    await hook.shutdown();
+    assertEquals(hook.received[0].headers.get("x-streamany-signature"), null);
+});
+
+Deno.test("Webhooks retry server errors", async () => {
+    const hook = endpoint([503]);
+    const webhooks = new Webhooks({ urls: [hook.url], maxAttempts: 3 });
+    webhooks.send({ event: "publish_stop", stream: "live/test" });
+    await webhooks.flush();
+    await hook.shutdown();
+
+    assertEquals(hook.received.length, 2);
+    // the same event, not a new one
+    assertEquals(hook.received[0].body, hook.received[1].body);
+});
+
+Deno.test("Webhooks give up after maxAttempts", async () => {
+    const hook = endpoint([500, 500, 500]);
+    const webhooks = new Webhooks({ urls: [hook.url], maxAttempts: 2 });
+    webhooks.send({ event: "publish_stop", stream: "live/test" });
+    await webhooks.flush();
+    await hook.shutdown();
+    assertEquals(hook.received.length, 2);
+});
+
+Deno.test("Webhooks do not retry client errors", async () => {
+    const hook = endpoint([404]);
+    const webhooks = new Webhooks({ urls: [hook.url], maxAttempts: 3 });
+    webhooks.send({ event: "publish_start", stream: "live/test" });
+    await webhooks.flush();
+    await hook.shutdown();
+    assertEquals(hook.received.length, 1);
+});
+
+Deno.test("Webhooks send only the events asked for", async () => {
+    const hook = endpoint();
+    const webhooks = new Webhooks({
+        urls: [hook.url],
+        events: ["recording_finished"],
+    });
+    webhooks.send({ event: "publish_start", stream: "live/test" });
+    webhooks.send({
+        event: "recording_finished",
+        stream: "live/test",
+        recording: { path: "live/test.flv", duration: 1, size: 2 },
+    });
+    await webhooks.flush();
+    await hook.shutdown();
+
+    assertEquals(
+        hook.received.map(({ body }) => JSON.parse(body).event),
+        ["recording_finished"],
+    );
+});
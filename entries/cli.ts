@@ -1,4 +1,6 @@
-import { run_ffmpeg, setup_ffmpeg_binary } from "../core/relay.ts";
+import { publishFile } from "../core/publisher.ts";
+import { destination_routes, Item, run_relay } from "../core/relay.ts";
+import { Webhooks } from "../core/webhooks.ts";
 import { parseArgs } from "jsr:@std/cli/parse-args";
 
 const item1: {
@@ -18,24 +20,98 @@ const item2: {
 };
 
 // parse cli arguments
-const cli_args = parseArgs(Deno.args);
+const cli_args = parseArgs(Deno.args, {
+    // --publish-key and --webhook may be repeated
+    collect: ["publish-key", "webhook"],
+    boolean: ["loop"],
+});
 console.log("cli args", cli_args);
 
+// streamany publish file.flv rtmp://host/app/stream [--loop]
+if (cli_args._[0] == "publish") {
+    const [file, url] = cli_args._.slice(1).map(String);
+    if (!file || !url) {
+        console.error(
+            "usage: publish file.flv rtmp://host/app/stream [--loop]",
+        );
+        Deno.exit(1);
+    }
+    const err = await publishFile(file, url, {
+        loop: cli_args["loop"] as boolean,
+    });
+    if (err) {
+        console.error(err);
+        Deno.exit(1);
+    }
+    Deno.exit(0);
+}
+
 const config_path = cli_args["c"] as string;
 if (!config_path) {
     console.error("-c config is not provided");
     Deno.exit(1);
 }
 const config_file = await Deno.readTextFile(config_path);
-const config_obj = JSON.parse(config_file) as { server: string; key: string }[];
+// [{ server, key, stream? }], see Item
+const config_obj = JSON.parse(config_file) as Item[];
+
+const publish_keys = (cli_args["publish-key"] as unknown[]).map(String);
+if (publish_keys.length == 0) {
+    console.warn("no --publish-key given, anyone can publish");
+}
+
+// --webhook url [--webhook-secret s]
+const webhook_urls = (cli_args["webhook"] as unknown[]).map(String);
+const webhooks = webhook_urls.length > 0
+    ? new Webhooks({
+        urls: webhook_urls,
+        secret: cli_args["webhook-secret"] !== undefined
+            ? String(cli_args["webhook-secret"])
+            : undefined,
+    })
+    : undefined;
+
+const routes = destination_routes(config_obj);
+if (routes.size == 0) {
+    console.error(new Error("no server list"));
+    Deno.exit(1);
+}
 
 //
-const ffmpeg_path = await setup_ffmpeg_binary();
-const child_process = await run_ffmpeg(ffmpeg_path, config_obj);
-if (child_process instanceof Error) {
-    console.error(child_process);
+const server = run_relay(routes, {
+    hostname: cli_args["host"] as string | undefined,
+    port: cli_args["port"] ? Number(cli_args["port"]) : undefined,
+    gopCacheSize: cli_args["gop-cache"] !== undefined
+        ? Number(cli_args["gop-cache"])
+        : undefined,
+    publish_keys: () => Promise.resolve(publish_keys),
+    // --record dir [--record-template t] [--record-duration s] [--record-size MB]
+    record: cli_args["record"]
+        ? {
+            directory: String(cli_args["record"]),
+            template: cli_args["record-template"] as string | undefined,
+            maxDuration: cli_args["record-duration"] !== undefined
+                ? Number(cli_args["record-duration"])
+                : undefined,
+            maxSize: cli_args["record-size"] !== undefined
+                ? Number(cli_args["record-size"]) * 1024 * 1024
+                : undefined,
+        }
+        : undefined,
+    webhooks,
+    // --max-message-size MB --max-pending-size MB
+    limits: {
+        maxMessageSize: cli_args["max-message-size"] !== undefined
+            ? Number(cli_args["max-message-size"]) * 1024 * 1024
+            : undefined,
+        maxPendingSize: cli_args["max-pending-size"] !== undefined
+            ? Number(cli_args["max-pending-size"]) * 1024 * 1024
+            : undefined,
+    },
+});
+if (server instanceof Error) {
+    console.error(server);
     Deno.exit(1);
 }
 
-const status = await child_process.status;
-console.log(status.code, status.success, status.signal);
+await server.serve();
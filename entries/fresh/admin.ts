@@ -0,0 +1,23 @@
+import { timingSafeEqual } from "../../core/auth.ts";
+
+/**
+ * Whether the request carries "Authorization: Bearer <ADMIN_TOKEN>",
+ * ADMIN_TOKEN is set in the environment or .env. Without it no request
+ * is an admin's.
+ */
+export function is_admin(req: Request): boolean {
+    const admin_token = Deno.env.get("ADMIN_TOKEN");
+    const authorization = req.headers.get("authorization") ?? "";
+    const bearer = authorization.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!admin_token || !bearer) {
+        return false;
+    }
+    return timingSafeEqual(admin_token, bearer);
+}
+
+export function unauthorized(): Response {
+    return new Response("admin token required", {
+        status: 401,
+        headers: { "www-authenticate": "Bearer" },
+    });
+}
@@ -5,10 +5,16 @@
 import * as $_404 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
 import * as $api_joke from "./routes/api/joke.ts";
+import * as $api_publish_keys from "./routes/api/publish_keys.ts";
 import * as $api_save_restream_config from "./routes/api/save_restream_config.ts";
 import * as $api_startTheRelay from "./routes/api/startTheRelay.ts";
+import * as $api_stats from "./routes/api/stats.ts";
 import * as $greet_name_ from "./routes/greet/[name].tsx";
 import * as $index from "./routes/index.tsx";
+import * as $live_stream_flv from "./routes/live/[stream].flv.ts";
+import * as $live_stream_mp4 from "./routes/live/[stream].mp4.ts";
+import * as $live_stream_file_ from "./routes/live/[stream]/[file].ts";
+import * as $metrics from "./routes/metrics.ts";
 import * as $restream from "./routes/restream.tsx";
 import * as $Counter from "./islands/Counter.tsx";
 import * as $Restream from "./islands/Restream.tsx";
@@ -19,10 +25,16 @@ const manifest = {
         "./routes/_404.tsx": $_404,
         "./routes/_app.tsx": $_app,
         "./routes/api/joke.ts": $api_joke,
+        "./routes/api/publish_keys.ts": $api_publish_keys,
         "./routes/api/save_restream_config.ts": $api_save_restream_config,
         "./routes/api/startTheRelay.ts": $api_startTheRelay,
+        "./routes/api/stats.ts": $api_stats,
         "./routes/greet/[name].tsx": $greet_name_,
         "./routes/index.tsx": $index,
+        "./routes/live/[stream].flv.ts": $live_stream_flv,
+        "./routes/live/[stream].mp4.ts": $live_stream_mp4,
+        "./routes/live/[stream]/[file].ts": $live_stream_file_,
+        "./routes/metrics.ts": $metrics,
         "./routes/restream.tsx": $restream,
     },
     islands: {
@@ -1,4 +1,5 @@
 import { Signal, useSignal } from "@preact/signals";
+import { useEffect, useRef } from "preact/hooks";
 import { PageProps } from "$fresh/server.ts";
 import { Item } from "../routes/restream.tsx";
 
@@ -34,6 +35,13 @@ export function RestreamConfig(props: { data: Item[] }) {
                 </h2>
                 <ServerAndKey item={item3} />
 
+                <div class="border-t border-gray-100 my-8"></div>
+
+                <h2 class="text-lg font-medium text-blue-700 mb-3">
+                    预览
+                </h2>
+                <LivePreview />
+
                 <button
                     onClick={submitTheForm([
                         item1.value,
@@ -81,9 +89,9 @@ function ServerAndKey(props: { item: Signal<Item> }) {
                     onInput={(e) => {
                         console.log(e);
                         props.item.value = {
+                            ...props.item.value,
                             // @ts-ignore
                             server: e.target.value,
-                            key: props.item.value.key,
                         };
                     }}
                     class="w-full px-3 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
@@ -97,7 +105,7 @@ function ServerAndKey(props: { item: Signal<Item> }) {
                     value={props.item.value.key}
                     onInput={(e) => {
                         props.item.value = {
-                            server: props.item.value.server,
+                            ...props.item.value,
                             // @ts-ignore
                             key: e.target.value,
                         };
@@ -107,10 +115,234 @@ function ServerAndKey(props: { item: Signal<Item> }) {
                     class="w-full px-3 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
                 />
             </div>
+            <div class="flex-1">
+                <label class="block text-gray-600 font-medium mb-2">
+                    推流名
+                </label>
+                <input
+                    value={props.item.value.stream}
+                    placeholder="*"
+                    onInput={(e) => {
+                        props.item.value = {
+                            ...props.item.value,
+                            // @ts-ignore
+                            stream: e.target.value,
+                        };
+                    }}
+                    type="text"
+                    class="w-full px-3 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                />
+            </div>
         </div>
     );
 }
 
+type PreviewStats = {
+    codecs: string;
+    resolution: string;
+    bitrate: number; // kbps
+};
+
+// the preview jumps ahead when it falls this far behind the live edge
+const MAX_PREVIEW_LATENCY = 1; // seconds
+const PREVIEW_BUFFER = 30; // seconds kept behind the playhead
+
+/**
+ * Plays rtmp://host/live/[stream] from /live/[stream].mp4, so that the
+ * publisher can be checked before the relay is started
+ */
+function LivePreview() {
+    const stream = useSignal("test");
+    const playing = useSignal<AbortController | undefined>(undefined);
+    const status = useSignal("");
+    const stats = useSignal<PreviewStats | undefined>(undefined);
+    const video = useRef<HTMLVideoElement>(null);
+
+    // stop the preview when the page goes away
+    useEffect(() => () => playing.value?.abort(), []);
+
+    const stop = () => {
+        playing.value?.abort();
+        playing.value = undefined;
+        stats.value = undefined;
+        video.current?.removeAttribute("src");
+        video.current?.load();
+    };
+
+    const start = async () => {
+        if (!video.current) {
+            return;
+        }
+        stop();
+        const controller = new AbortController();
+        playing.value = controller;
+        status.value = "连接中…";
+        const err = await playPreview(
+            video.current,
+            stream.value,
+            controller.signal,
+            status,
+            stats,
+        );
+        if (controller.signal.aborted) {
+            return;
+        }
+        stop();
+        status.value = err ? err.message : "推流已结束";
+    };
+
+    return (
+        <div class="mb-6">
+            <div class="relative bg-black rounded-md overflow-hidden aspect-video">
+                <video
+                    ref={video}
+                    muted
+                    autoPlay
+                    playsInline
+                    controls
+                    class="w-full h-full"
+                />
+                {stats.value && (
+                    <div class="absolute top-2 left-2 px-2 py-1 rounded bg-black bg-opacity-60 text-white text-xs font-mono">
+                        {stats.value.codecs} · {stats.value.resolution} ·{" "}
+                        {stats.value.bitrate} kbps
+                    </div>
+                )}
+                {status.value && (
+                    <div class="absolute inset-0 flex items-center justify-center text-gray-300 text-sm pointer-events-none">
+                        {status.value}
+                    </div>
+                )}
+            </div>
+            <div class="flex gap-4 mt-3">
+                <input
+                    value={stream.value}
+                    placeholder="推流名"
+                    onInput={(e) => {
+                        stream.value = e.currentTarget.value;
+                    }}
+                    type="text"
+                    class="flex-1 px-3 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                />
+                <button
+                    type="button"
+                    onClick={playing.value
+                        ? () => {
+                            stop();
+                            status.value = "";
+                        }
+                        : start}
+                    class="bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-6 rounded-md transition duration-300"
+                >
+                    {playing.value ? "停止" : "预览"}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Appends the fragmented MP4 of the stream to a MediaSource until the
+ * stream ends or the signal aborts, updating the overlay every second
+ */
+async function playPreview(
+    video: HTMLVideoElement,
+    stream: string,
+    signal: AbortSignal,
+    status: Signal<string>,
+    stats: Signal<PreviewStats | undefined>,
+): Promise<Error | undefined> {
+    try {
+        const res = await fetch(`/live/${encodeURIComponent(stream)}.mp4`, {
+            signal,
+        });
+        if (res.status == 404) {
+            return new Error(`live/${stream} 未推流`);
+        }
+        if (!res.ok || !res.body) {
+            return new Error(await res.text());
+        }
+        const mimeType = res.headers.get("content-type") ?? "";
+        if (!MediaSource.isTypeSupported(mimeType)) {
+            return new Error(`浏览器不支持 ${mimeType}`);
+        }
+
+        const mediaSource = new MediaSource();
+        video.src = URL.createObjectURL(mediaSource);
+        await new Promise((resolve) =>
+            mediaSource.addEventListener("sourceopen", resolve, {
+                once: true,
+            })
+        );
+        const buffer = mediaSource.addSourceBuffer(mimeType);
+        const codecs = mimeType.match(/codecs="(.*)"/)?.[1] ?? mimeType;
+
+        const reader = res.body.getReader();
+        let bytes = 0;
+        let since = performance.now();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+            await update(buffer, () => buffer.appendBuffer(value));
+            if (status.value) {
+                status.value = "";
+                video.play().catch(() => {});
+            }
+            await keepLive(video, buffer);
+
+            bytes += value.length;
+            const now = performance.now();
+            if (now - since >= 1000) {
+                stats.value = {
+                    codecs,
+                    resolution: `${video.videoWidth}x${video.videoHeight}`,
+                    bitrate: Math.round(bytes * 8 / (now - since)),
+                };
+                bytes = 0;
+                since = now;
+            }
+        }
+    } catch (e) {
+        if (!signal.aborted) {
+            return e as Error;
+        }
+    }
+}
+
+/**
+ * Stays near the live edge and drops what was played long ago
+ */
+async function keepLive(video: HTMLVideoElement, buffer: SourceBuffer) {
+    const { buffered } = video;
+    if (buffered.length == 0) {
+        return;
+    }
+    const end = buffered.end(buffered.length - 1);
+    if (end - video.currentTime > MAX_PREVIEW_LATENCY) {
+        video.currentTime = end - 0.1;
+    }
+    const start = buffered.start(0);
+    if (video.currentTime - start > PREVIEW_BUFFER) {
+        await update(
+            buffer,
+            () => buffer.remove(start, video.currentTime - PREVIEW_BUFFER / 2),
+        );
+    }
+}
+
+/**
+ * Runs an append or remove, a SourceBuffer takes one at a time
+ */
+function update(buffer: SourceBuffer, action: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        buffer.onupdateend = () => resolve();
+        buffer.onerror = () => reject(new Error("SourceBuffer error"));
+        action();
+    });
+}
+
 const submitTheForm = (data: Item[]) => async () => {
     await fetch("/api/save_restream_config", {
         method: "POST",
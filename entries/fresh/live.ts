@@ -0,0 +1,97 @@
+import { HlsStreams } from "../../core/hls.ts";
+import { get_publish_keys, Routes, run_relay } from "../../core/relay.ts";
+import { RtmpServer } from "../../core/server.ts";
+import { StatsRegistry } from "../../core/stats.ts";
+import { StreamRegistry } from "../../core/streams.ts";
+import { Webhooks } from "../../core/webhooks.ts";
+
+// the streams of the app's RTMP server, they outlive its restarts. Served
+// over HTTP-FLV at /live/[stream].flv and as fragmented MP4 for the
+// preview at /live/[stream].mp4.
+export const live_streams = new StreamRegistry();
+
+// and over HLS under /live/[stream]/. HLS_SEGMENT_DURATION (seconds) and
+// HLS_PLAYLIST_LENGTH (segments) may be set in the environment or .env
+export const hls_streams = new HlsStreams({
+    segmentDuration: number_from_env("HLS_SEGMENT_DURATION"),
+    playlistLength: number_from_env("HLS_PLAYLIST_LENGTH"),
+});
+
+// the sessions and destinations of the app's RTMP server, served at
+// /metrics for Prometheus and as JSON at /api/stats
+export const live_stats = new StatsRegistry();
+
+// notified of the relay's publishers, players and destinations when
+// WEBHOOK_URLS (comma separated) is set, the requests are signed with
+// WEBHOOK_SECRET if set too
+export const live_webhooks = webhooks_from_env();
+
+// ingest only until /api/startTheRelay replaces it with the relay
+let rtmp_server: RtmpServer | undefined;
+let rtmp_serving: Promise<void> | undefined;
+
+/**
+ * Accepts publishers without relaying them, so that the stream can be
+ * previewed before the relay is started
+ */
+export function start_ingest(): Error | undefined {
+    const server = live_relay(new Map());
+    if (server instanceof Error) {
+        return server;
+    }
+    serve_rtmp(server);
+}
+
+/**
+ * The app's RTMP server, relaying to the routes. Publishers need one of
+ * the publish keys, their streams are served and sent to the webhooks
+ * whether or not they are relayed.
+ */
+export function live_relay(routes: Routes): RtmpServer | Error {
+    return run_relay(routes, {
+        publish_keys: get_publish_keys,
+        hls: hls_streams,
+        streams: live_streams,
+        stats: live_stats,
+        webhooks: live_webhooks,
+    });
+}
+
+export function serve_rtmp(server: RtmpServer) {
+    rtmp_server = server;
+    rtmp_serving = server.serve();
+}
+
+/**
+ * Closes the RTMP server, its publishers reconnect to the next one. The
+ * port is free again once this resolves.
+ */
+export async function stop_rtmp_server() {
+    rtmp_server?.close();
+    await rtmp_serving;
+    rtmp_server = undefined;
+    rtmp_serving = undefined;
+}
+
+function number_from_env(name: string) {
+    const value = Deno.env.get(name);
+    if (!value) {
+        return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+        console.warn(`${name}=${value} is not a positive number, ignored`);
+        return undefined;
+    }
+    return number;
+}
+
+function webhooks_from_env() {
+    const urls = (Deno.env.get("WEBHOOK_URLS") ?? "").split(",")
+        .map((url) => url.trim())
+        .filter((url) => url != "");
+    if (urls.length == 0) {
+        return undefined;
+    }
+    return new Webhooks({ urls, secret: Deno.env.get("WEBHOOK_SECRET") });
+}
@@ -6,14 +6,19 @@
 /// <reference lib="deno.unstable" />
 
 import "$std/dotenv/load.ts";
-import { setup_ffmpeg_binary } from "../../core/relay.ts";
 
 import { start } from "$fresh/server.ts";
 import manifest from "./fresh.gen.ts";
 import config from "./fresh.config.ts";
+import { start_ingest } from "./live.ts";
 
 console.log("before start");
-const ffmpeg_path = await setup_ffmpeg_binary();
+
+// OBS may connect, and be previewed, before the relay is started
+const ingest_err = start_ingest();
+if (ingest_err) {
+    console.error(ingest_err);
+}
 
 await start(manifest, config);
 console.log("after start");
@@ -0,0 +1,25 @@
+import { Handlers } from "$fresh/server.ts";
+import {
+    get_publish_keys,
+    rotate_publish_key,
+} from "../../../../core/relay.ts";
+import { is_admin, unauthorized } from "../../admin.ts";
+
+// GET lists the publish keys, POST replaces them with a new one. Both
+// require the admin token, see admin.ts
+export const handler: Handlers = {
+    async GET(req, _ctx) {
+        if (!is_admin(req)) {
+            return unauthorized();
+        }
+        return Response.json(await get_publish_keys());
+    },
+    async POST(req, _ctx) {
+        if (!is_admin(req)) {
+            return unauthorized();
+        }
+        const key = await rotate_publish_key();
+        console.log("rotated the publish key");
+        return Response.json([key]);
+    },
+};
@@ -10,12 +10,15 @@ export const handler = async (
     {
         await kv.set(["item1", "server"], obj.item1.server);
         await kv.set(["item1", "key"], obj.item1.key);
+        await kv.set(["item1", "stream"], obj.item1.stream || "*");
 
         await kv.set(["item2", "server"], obj.item2.server);
         await kv.set(["item2", "key"], obj.item2.key);
+        await kv.set(["item2", "stream"], obj.item2.stream || "*");
 
         await kv.set(["item3", "server"], obj.item3.server);
         await kv.set(["item3", "key"], obj.item3.key);
+        await kv.set(["item3", "stream"], obj.item3.stream || "*");
     }
     kv.close();
     return new Response();
@@ -1,21 +1,37 @@
 import { FreshContext } from "$fresh/server.ts";
 import {
+    destination_routes,
     get_relay_config,
-    run_ffmpeg,
-    setup_ffmpeg_binary,
 } from "../../../../core/relay.ts";
+import {
+    live_relay,
+    serve_rtmp,
+    start_ingest,
+    stop_rtmp_server,
+} from "../../live.ts";
 
+// restarts the app's RTMP server as a relay with the latest config
 export const handler = async (
     _req: Request,
     _ctx: FreshContext,
 ): Promise<Response> => {
     const data = await get_relay_config();
-    const ffmpeg_path = await setup_ffmpeg_binary();
-    const child_p = await run_ffmpeg(ffmpeg_path, data);
-    if (child_p instanceof Error) {
-        console.error(child_p);
-        new Response(child_p.message, { status: 400 });
+    const routes = destination_routes(data);
+
+    await stop_rtmp_server();
+
+    if (routes.size == 0) {
+        // publishers may still connect for the preview
+        start_ingest();
+        return new Response("no server list", { status: 400 });
+    }
+    const server = live_relay(routes);
+    if (server instanceof Error) {
+        console.error(server);
+        start_ingest();
+        return new Response(server.message, { status: 400 });
     }
+    serve_rtmp(server);
 
     return new Response();
 };
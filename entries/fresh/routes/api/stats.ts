@@ -0,0 +1,9 @@
+import { Handlers } from "$fresh/server.ts";
+import { live_stats } from "../../live.ts";
+
+// the numbers of /metrics as JSON, see Stats in core/stats.ts
+export const handler: Handlers = {
+    GET(_req, _ctx) {
+        return Response.json(live_stats.snapshot());
+    },
+};
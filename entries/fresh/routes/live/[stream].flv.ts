@@ -0,0 +1,24 @@
+import { Handlers } from "$fresh/server.ts";
+import { HttpFlvPlayer } from "../../../../core/httpflv.ts";
+import { live_streams } from "../../live.ts";
+
+// rtmp://host/live/[stream] as HTTP-FLV, for flv.js, mpegts.js and ffplay
+export const handler: Handlers = {
+    GET(_req, ctx) {
+        const player = HttpFlvPlayer.play(
+            live_streams,
+            `live/${ctx.params.stream}`,
+        );
+        if (!player) {
+            return new Response(null, { status: 404 });
+        }
+        return new Response(player.body, {
+            headers: {
+                "content-type": "video/x-flv",
+                "cache-control": "no-cache",
+                // players on other origins, like the flv.js demo page
+                "access-control-allow-origin": "*",
+            },
+        });
+    },
+};
@@ -0,0 +1,27 @@
+import { Handlers } from "$fresh/server.ts";
+import { HttpMp4Player } from "../../../../core/httpmp4.ts";
+import { live_streams } from "../../live.ts";
+
+// rtmp://host/live/[stream] as fragmented MP4, for the preview on /restream
+export const handler: Handlers = {
+    GET(_req, ctx) {
+        const player = HttpMp4Player.play(
+            live_streams,
+            `live/${ctx.params.stream}`,
+        );
+        if (!player) {
+            return new Response(null, { status: 404 });
+        }
+        // published, but without a codec the browser can play yet
+        if (player instanceof Error) {
+            return new Response(player.message, { status: 409 });
+        }
+        return new Response(player.body, {
+            headers: {
+                // with the codecs, for MediaSource.addSourceBuffer
+                "content-type": player.muxer.mimeType,
+                "cache-control": "no-cache",
+            },
+        });
+    },
+};
@@ -0,0 +1,31 @@
+import { Handlers } from "$fresh/server.ts";
+import { hls_streams } from "../../../live.ts";
+
+// index.m3u8 and the <sequence>.ts segments of rtmp://host/live/[stream]
+export const handler: Handlers = {
+    GET(_req, ctx) {
+        const packager = hls_streams.get(`live/${ctx.params.stream}`);
+        if (!packager) {
+            return new Response(null, { status: 404 });
+        }
+
+        const { file } = ctx.params;
+        if (file == "index.m3u8") {
+            return new Response(packager.playlist(), {
+                headers: {
+                    "content-type": "application/vnd.apple.mpegurl",
+                    // live playlists change every segment
+                    "cache-control": "no-cache",
+                },
+            });
+        }
+        const sequence = file.match(/^(\d+)\.ts$/)?.[1];
+        const segment = sequence && packager.segment(Number(sequence));
+        if (!segment) {
+            return new Response(null, { status: 404 });
+        }
+        return new Response(segment, {
+            headers: { "content-type": "video/mp2t" },
+        });
+    },
+};
@@ -0,0 +1,14 @@
+import { Handlers } from "$fresh/server.ts";
+import { formatPrometheus } from "../../../core/stats.ts";
+import { live_stats } from "../live.ts";
+
+// the RTMP sessions and destinations for Prometheus to scrape
+export const handler: Handlers = {
+    GET(_req, _ctx) {
+        return new Response(formatPrometheus(live_stats.snapshot()), {
+            headers: {
+                "content-type": "text/plain; version=0.0.4; charset=utf-8",
+            },
+        });
+    },
+};
@@ -7,6 +7,8 @@ import { RestreamConfig } from "../islands/Restream.tsx";
 export interface Item {
     server: string;
     key: string;
+    // the published stream relayed to this platform, "*" for all
+    stream?: string;
 }
 
 export const handler: Handlers<Item[]> = {